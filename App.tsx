@@ -1,22 +1,42 @@
 
 import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
-import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend, CartesianGrid } from 'recharts';
-import { ArrowLeft, ArrowRight, BrainCircuit, Download, Users, TrendingUp, FileText, Loader2, Sparkles, RefreshCw } from 'lucide-react';
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
+import { AreaChart, Area, LineChart, Line, BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend, CartesianGrid, ReferenceLine } from 'recharts';
+import { ArrowLeft, ArrowRight, BrainCircuit, Download, Users, TrendingUp, FileText, Loader2, Sparkles, RefreshCw, SlidersHorizontal, ChevronDown, ChevronUp, Save, Trash2, Upload, Dices, X, Link, Check, FileSpreadsheet } from 'lucide-react';
+import { calculateRoi, describeAdoption, newSegmentId, summarizeSegments, MAX_SEGMENT_NAME_LENGTH, MAX_SEGMENTS, MAX_TERM_YEARS, trainingHoursSavedPerEmployee, AdoptionCurve, BusinessDrivers, DEFAULT_ADOPTION, DEFAULT_COST_GROWTH, DEFAULT_DRIVERS, EmployeeSegment, IMMEDIATE_ADOPTION, RoiInputs, RoiResult, SegmentBenefit } from './roiEngine';
+import { DRIVER_PRESETS, activePresetName, findPreset } from './driverPresets';
+import { DEFAULT_PRICING_SCHEDULE } from './pricing';
+import { DEFAULT_LOCALE, Formatters, LOCALE_OPTIONS, convertInputs, createFormatters, findLocale } from './locale';
+import { INPUT_LIMITS, INPUT_RANGES, InputLimit } from './inputRanges';
+import { ShareableState, buildShareUrl, decodeState, encodeState } from './urlState';
+import { DEFAULT_SPREADS, DEFAULT_TRIALS, MonteCarloResult, SENSITIVITY_VARIABLES, SensitivitySpreads, buildTornado, runMonteCarlo } from './sensitivity';
+import { MAX_SCENARIOS, Scenario, ScenarioResult, buildComparisonChartData, createScenario, defaultScenarioName, evaluateScenarios, longestTerm } from './scenarios';
+import { buildPdfReport } from './pdfReport';
+import { buildExcelReport } from './excelReport';
+import { XLSX_MIME_TYPE } from './xlsxWriter';
+import { AiInsights, RateLimitError, buildInsightsRequest, describeSource, resolveKeyFigure, streamInsights } from './insights';
+import { getSessionId } from './session';
+import { trackActivity } from './tracking';
+import { PRIVACY_CONFIG } from './privacy';
+import { GatedAction, LEAD_GATE_MODE, clearInviteToken, readInviteToken, verifyInvite } from './leadGate';
+import { EmbedBranding, HostCommand, HostInputKey, IS_EMBEDDED, applyBranding, listenToHost, postToHost, watchHeight } from './embed';
 
 // --- ASSETS ---
 // The image logo has been removed to fix persistent PDF generation errors.
 // It is replaced with a styled text component for reliability.
-const Logo = ({ className }: { className?: string }) => (
+const Logo = ({ className, text = 'Create One' }: { className?: string; text?: string }) => (
     <div className={`font-bold text-4xl text-brand-carmine ${className}`}>
-        Create One
+        {text}
     </div>
 );
 
 
 // --- HELPER & UI COMPONENTS ---
 
+// Cash-flow charts are plotted by month, with a labelled tick at each contract year.
+const yearTicks = (term: number) => Array.from({ length: term + 1 }, (_, year) => year * 12);
+const formatYearTick = (month: number) => `Year ${month / 12}`;
+const formatMonthLabel = (month: number) => month % 12 === 0 ? `Year ${month / 12}` : `Month ${month}`;
+
 const ExecutiveSummaryCard: React.FC<{ title: string; value: string; }> = ({ title, value }) => (
     <div className="bg-white rounded-lg p-6 shadow-lg border border-brand-border">
         <p className="text-sm uppercase tracking-wider text-brand-red font-bold">{title}</p>
@@ -24,6 +44,20 @@ const ExecutiveSummaryCard: React.FC<{ title: string; value: string; }> = ({ tit
     </div>
 );
 
+// Why a typed value can't be used, or '' when it can.
+const validateEntry = (raw: string, limit: InputLimit, integer: boolean): string => {
+    const value = Number(raw);
+    if (raw.trim() === '' || !Number.isFinite(value)) return 'Enter a number.';
+    if (integer && !Number.isInteger(value)) return 'Enter a whole number.';
+    if (value < limit.min) return `Must be at least ${limit.min.toLocaleString()}.`;
+    if (value > limit.max) return `Must be at most ${limit.max.toLocaleString()}.`;
+    return '';
+};
+
+// A slider with a linked number field. The slider covers the typical `min`-`max`
+// range and stretches to reach a typed value beyond it; only values outside the hard
+// `limit` (see INPUT_LIMITS) are rejected. Whole-number steps take whole numbers.
+// In the field, arrow keys nudge the value by 1, or by `step` with Shift.
 const SliderInput: React.FC<{
     label: string;
     value: number;
@@ -32,23 +66,69 @@ const SliderInput: React.FC<{
     max: number;
     step: number;
     formatValue: (value: number) => string;
-}> = ({ label, value, onChange, min, max, step, formatValue }) => (
-    <div className="space-y-2">
-        <div className="flex justify-between items-center">
-            <label className="text-sm font-medium text-brand-medium-text">{label}</label>
-            <span className="text-lg font-bold text-brand-dark-text">{formatValue(value)}</span>
+    limit: InputLimit;
+}> = ({ label, value, onChange, min, max, step, formatValue, limit }) => {
+    const [draft, setDraft] = useState<string | null>(null); // Field text while it differs from `value`
+    const [error, setError] = useState('');
+    const integer = Number.isInteger(step);
+    const isOutOfRange = value < min || value > max;
+
+    const enter = (raw: string) => {
+        const message = validateEntry(raw, limit, integer);
+        setDraft(raw);
+        setError(message);
+        if (!message) onChange(Number(raw));
+    };
+
+    const nudge = (delta: number) => {
+        setDraft(null);
+        setError('');
+        onChange(Math.min(limit.max, Math.max(limit.min, value + delta)));
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex justify-between items-center">
+                <label className="text-sm font-medium text-brand-medium-text">{label}</label>
+                <span className="text-lg font-bold text-brand-dark-text">{formatValue(value)}</span>
+            </div>
+            <div className="flex items-center gap-3">
+                <input
+                    type="range"
+                    min={Math.min(min, value)}
+                    max={Math.max(max, value)}
+                    step={step}
+                    value={value}
+                    onChange={(e) => { setDraft(null); setError(''); onChange(Number(e.target.value)); }}
+                    className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer range-thumb"
+                    aria-label={label}
+                />
+                <input
+                    type="number"
+                    min={limit.min}
+                    max={limit.max}
+                    step={integer ? 1 : 'any'}
+                    value={draft ?? String(value)}
+                    onChange={(e) => enter(e.target.value)}
+                    onBlur={() => { setDraft(null); setError(''); }}
+                    onKeyDown={(e) => {
+                        if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+                        e.preventDefault();
+                        nudge((e.shiftKey ? step : 1) * (e.key === 'ArrowUp' ? 1 : -1));
+                    }}
+                    className={`w-28 p-1 text-right text-sm bg-white border rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-red ${error ? 'border-brand-red' : 'border-brand-border'}`}
+                    aria-label={`${label} value`}
+                    aria-invalid={error !== ''}
+                />
+            </div>
+            {error ? (
+                <p className="text-xs text-brand-red" role="alert">{error}</p>
+            ) : isOutOfRange && (
+                <p className="text-xs text-brand-medium-text">{`Outside the typical range of ${min.toLocaleString()}–${max.toLocaleString()}; check it before sharing the analysis.`}</p>
+            )}
         </div>
-        <input
-            type="range"
-            min={min}
-            max={max}
-            step={step}
-            value={value}
-            onChange={(e) => onChange(parseInt(e.target.value, 10))}
-            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer range-thumb"
-        />
-    </div>
-);
+    );
+};
 
 
 const AssumptionCard: React.FC<{ label: string; value: string; }> = ({ label, value }) => (
@@ -70,232 +150,630 @@ const BenefitAnalysisBar: React.FC<{ name: string; value: string; percentage: nu
     </div>
 );
 
-const SimpleMarkdown: React.FC<{ text: string }> = ({ text }) => {
-    if (!text) return null;
-    const html = text
-        .split('**')
-        .map((part, index) => (index % 2 === 1 ? `<strong class="text-brand-dark-text">${part}</strong>` : part))
-        .join('');
+const AdvancedAssumptionsPanel: React.FC<{
+    drivers: BusinessDrivers;
+    onChange: (drivers: BusinessDrivers) => void;
+}> = ({ drivers, onChange }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const activePreset = findPreset(drivers);
+    const setDriver = (key: keyof BusinessDrivers, value: number) => onChange({ ...drivers, [key]: value });
 
-    return <div className="text-brand-medium-text space-y-4" dangerouslySetInnerHTML={{ __html: html.replace(/\n/g, '<br />') }} />;
+    return (
+        <div className="mt-8 bg-white border border-brand-border rounded-lg">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className="w-full flex justify-between items-center p-4 text-left"
+                aria-expanded={isOpen}
+            >
+                <span className="flex items-center font-bold text-brand-dark-text">
+                    <SlidersHorizontal className="mr-2 h-5 w-5 text-brand-carmine" />
+                    Advanced Assumptions
+                    <span className="ml-3 text-xs font-medium px-2 py-1 rounded-full bg-brand-light-gray text-brand-medium-text">{activePresetName(drivers)}</span>
+                </span>
+                {isOpen ? <ChevronUp className="h-5 w-5 text-brand-medium-text" /> : <ChevronDown className="h-5 w-5 text-brand-medium-text" />}
+            </button>
+            {isOpen && (
+                <div className="p-4 pt-0 space-y-6">
+                    <div className="flex flex-wrap gap-2">
+                        {DRIVER_PRESETS.map(preset => (
+                            <button
+                                key={preset.id}
+                                onClick={() => onChange(preset.drivers)}
+                                title={preset.description}
+                                className={`text-sm px-4 py-2 rounded-lg border-2 transition-colors ${activePreset?.id === preset.id ? 'border-brand-red text-brand-red' : 'border-brand-border text-brand-medium-text hover:border-brand-red hover:text-brand-red'}`}
+                            >
+                                {preset.name}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-xs text-brand-medium-text">{activePreset ? activePreset.description : 'Drivers have been adjusted from a preset.'}</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-6">
+                        <SliderInput label="Productivity Boost" value={Math.round(drivers.productivityBoost * 100)} onChange={(v) => setDriver('productivityBoost', v / 100)} min={0} max={20} step={1} limit={INPUT_LIMITS.productivityBoost} formatValue={(v) => `${v}%`} />
+                        <SliderInput label="Turnover Reduction" value={Math.round(drivers.turnoverReduction * 100)} onChange={(v) => setDriver('turnoverReduction', v / 100)} min={0} max={50} step={1} limit={INPUT_LIMITS.turnoverReduction} formatValue={(v) => `${v}%`} />
+                        <SliderInput label="Training Efficiency Gain" value={Math.round(drivers.trainingEfficiency * 100)} onChange={(v) => setDriver('trainingEfficiency', v / 100)} min={0} max={60} step={1} limit={INPUT_LIMITS.trainingEfficiency} formatValue={(v) => `${v}%`} />
+                        <SliderInput label="Max Training Hours Saved per Employee" value={drivers.maxTrainingHoursSaved} onChange={(v) => setDriver('maxTrainingHoursSaved', v)} min={0} max={40} step={1} limit={INPUT_LIMITS.maxTrainingHoursSaved} formatValue={(v) => `${v} hrs`} />
+                        <SliderInput label="Working Hours per Year" value={drivers.workingHoursPerYear} onChange={(v) => setDriver('workingHoursPerYear', v)} min={1600} max={2400} step={40} limit={INPUT_LIMITS.workingHoursPerYear} formatValue={(v) => `${v} hrs`} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
 };
 
+const PHASED_ADOPTION: AdoptionCurve = { kind: 'yearly', yearlyPercent: [50, 85, 100, 100, 100] };
+
+const AdoptionCurveInput: React.FC<{
+    curve: AdoptionCurve;
+    term: number;
+    onChange: (curve: AdoptionCurve) => void;
+}> = ({ curve, term, onChange }) => {
+    const mode = curve.kind === 'sCurve' ? 'sCurve' : curve.yearlyPercent.length === 1 && curve.yearlyPercent[0] === 100 ? 'immediate' : 'yearly';
+    const modes: { id: typeof mode; label: string; curve: AdoptionCurve }[] = [
+        { id: 'immediate', label: 'Immediate', curve: IMMEDIATE_ADOPTION },
+        { id: 'yearly', label: 'Per-Year %', curve: PHASED_ADOPTION },
+        { id: 'sCurve', label: 'S-Curve', curve: DEFAULT_ADOPTION },
+    ];
 
-// --- PDF REPORT COMPONENT (FOR OFF-SCREEN RENDERING) ---
-
-interface PdfReportProps {
-    formData: any;
-    calculations: any;
-    assumptions: {
-        employees: number;
-        salary: number;
-        trainingHours: number;
-        turnover: number;
-        replaceCost: number;
-        term: number;
-    };
-    aiInsights: string;
-    formatters: {
-        formatCurrency: (value: number) => string;
-        formatNumber: (value: number) => string;
-        formatPercent: (value: number) => string;
-        formatCurrencyK: (value: number) => string;
-        formatMonths: (value: number) => string;
-    };
-    page1Ref: React.RefObject<HTMLDivElement>;
-    page2Ref: React.RefObject<HTMLDivElement>;
-}
-
-const PdfReport: React.FC<PdfReportProps> = ({ formData, calculations, assumptions, aiInsights, formatters, page1Ref, page2Ref }) => {
-    const { formatCurrency, formatPercent, formatNumber, formatCurrencyK, formatMonths } = formatters;
-    const { term } = assumptions;
-    
-    const pageStyle: React.CSSProperties = {
-        width: '210mm',
-        minHeight: '297mm',
-        backgroundColor: 'white',
-        fontFamily: 'sans-serif',
-        color: '#404041', // Set base typography color
+    const setYearPercent = (yearIndex: number, percent: number) => {
+        if (curve.kind !== 'yearly') return;
+        // Pad to the longest selectable term so switching terms keeps every year's value
+        const yearlyPercent = Array.from({ length: Math.max(MAX_TERM_YEARS, curve.yearlyPercent.length) }, (_, i) =>
+            curve.yearlyPercent[Math.min(i, curve.yearlyPercent.length - 1)]);
+        yearlyPercent[yearIndex] = percent;
+        onChange({ kind: 'yearly', yearlyPercent });
     };
 
-    const headingStyle: React.CSSProperties = {
-        color: '#AF222A', // Carmine
-        fontSize: '1.25rem',
-        fontWeight: 'bold',
-        marginBottom: '1rem',
-    };
-    
-    // This component uses a simple flex layout to prevent text-garbling issues with html2canvas
-    const PdfTwoColumnGrid: React.FC<{ data: { label: string, value: string }[] }> = ({ data }) => (
-        <div className="grid grid-cols-2 gap-x-8 gap-y-4 text-sm">
-            {data.map(({ label, value }) => (
-                <div key={label}>
-                    <div className="text-brand-medium-text">{label}</div>
-                    <div className="font-bold text-brand-dark-text">{value}</div>
+    return (
+        <div className="mt-8 bg-white border border-brand-border rounded-lg p-4 space-y-4">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+                <p className="font-bold text-brand-dark-text">Benefit Ramp-Up</p>
+                <div className="flex gap-2">
+                    {modes.map(option => (
+                        <button
+                            key={option.id}
+                            onClick={() => mode !== option.id && onChange(option.curve)}
+                            className={`text-sm px-3 py-1 rounded-lg border-2 transition-colors ${mode === option.id ? 'border-brand-red text-brand-red' : 'border-brand-border text-brand-medium-text hover:border-brand-red hover:text-brand-red'}`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
                 </div>
-            ))}
-        </div>
-    );
-
-    // New component for PDF bar chart for reliability
-    const PdfBenefitBar: React.FC<{ label: string; value: string; percentage: number; }> = ({ label, value, percentage }) => (
-        <div style={{ marginBottom: '16px' }}>
-            <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '4px', fontSize: '12px', color: '#404041' }}>
-                <span>{label}</span>
-                <span style={{ fontWeight: 'bold' }}>{value}</span>
-            </div>
-            <div style={{ height: '10px', backgroundColor: '#F1F1F2', borderRadius: '5px' }}>
-                <div style={{
-                    width: `${percentage}%`,
-                    height: '10px',
-                    backgroundColor: '#ED2F48', // Crimson
-                    borderRadius: '5px'
-                }}></div>
             </div>
+            {curve.kind === 'yearly' && mode === 'yearly' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-6">
+                    {Array.from({ length: term }, (_, i) => (
+                        <SliderInput
+                            key={i}
+                            label={`Year ${i + 1} Adoption`}
+                            value={curve.yearlyPercent[Math.min(i, curve.yearlyPercent.length - 1)]}
+                            onChange={(v) => setYearPercent(i, v)}
+                            min={0} max={100} step={5}
+                            limit={INPUT_LIMITS.adoptionPercent}
+                            formatValue={(v) => `${v}%`}
+                        />
+                    ))}
+                </div>
+            )}
+            {curve.kind === 'sCurve' && (
+                <SliderInput
+                    label="Months to Full Adoption"
+                    value={curve.monthsToFullAdoption}
+                    onChange={(v) => onChange({ kind: 'sCurve', monthsToFullAdoption: v })}
+                    min={1} max={36} step={1}
+                    limit={INPUT_LIMITS.monthsToFullAdoption}
+                    formatValue={(v) => `${v} months`}
+                />
+            )}
+            <p className="text-xs text-brand-medium-text">{describeAdoption(curve, term)}. Applied to every benefit stream.</p>
         </div>
     );
-    
-    const clientInfoData = [
-        { label: 'Company:', value: formData.company },
-        { label: 'Contact:', value: `${formData['first-name']} ${formData['last-name']}` },
-        { label: 'Email:', value: formData['business-email'] },
-        { label: 'Phone:', value: formData.telephone },
-        { label: 'Report Date:', value: new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }) },
-        { label: 'Analysis Period:', value: `${term} Years` }
-    ];
+};
 
-    const assumptionsData = [
-        { label: 'Number of Employees', value: formatNumber(assumptions.employees) },
-        { label: 'Average Employee Annual Salary', value: formatCurrency(assumptions.salary) },
-        { label: 'Annual Employee Training Hours', value: `${assumptions.trainingHours} hours` },
-        { label: 'Annual Employee Turnover Rate', value: formatPercent(assumptions.turnover) },
-        { label: 'Replacement Cost per Employee', value: formatCurrency(assumptions.replaceCost) },
-        { label: 'Subscription Term', value: `${assumptions.term} years` }
-    ];
-    
-     const benefitsList = [
-        { label: "Productivity Gains", value: calculations.productivityGains },
-        { label: "Turnover Reduction Savings", value: calculations.turnoverReductionSavings },
-        { label: "Training Time Savings", value: calculations.trainingTimeSavings },
-    ];
-    
-    const maxBenefit = Math.max(...benefitsList.map(b => b.value), 1);
+const segmentInputClass = 'w-full p-2 bg-white border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-red';
+const segmentLabelClass = 'block text-xs text-brand-medium-text mb-1';
 
+// A number field in the segment table. As in SliderInput, the typed text is kept as a
+// draft and validated, so a cleared field stays empty while a new value is typed; a
+// valid entry is committed on blur or Enter, and an invalid one is dropped on blur.
+const SegmentNumberInput: React.FC<{
+    label: string;
+    value: number;
+    onChange: (value: number) => void;
+    limit: InputLimit;
+    step: number;
+    integer?: boolean;
+}> = ({ label, value, onChange, limit, step, integer = false }) => {
+    const [draft, setDraft] = useState<string | null>(null); // Field text while it is being edited
+    const error = draft === null ? '' : validateEntry(draft, limit, integer);
+
+    const commit = () => {
+        if (draft !== null && !error && Number(draft) !== value) onChange(Number(draft));
+        setDraft(null);
+    };
 
     return (
-        <div style={{ position: 'absolute', left: '-9999px', top: 0 }}>
-            {/* --- PAGE 1 --- */}
-            <div ref={page1Ref} style={pageStyle} className="p-8 flex flex-col">
-                 <header className="mb-8">
-                    <h1 className="text-4xl font-bold" style={{ color: '#AF222A' }}>Create One</h1>
-                    <h2 className="text-4xl font-bold mt-1" style={{ color: '#404041' }}>
-                        PowerShops Investment Analysis Report
-                    </h2>
-                </header>
-                <div className="flex-grow pt-4">
-                    <h3 style={headingStyle}>Client Information</h3>
-                    <PdfTwoColumnGrid data={clientInfoData} />
-                    
-                    <h3 style={{...headingStyle, marginTop: '2rem'}}>Analysis Assumptions</h3>
-                    <div className="bg-white p-6 rounded-lg">
-                       <PdfTwoColumnGrid data={assumptionsData} />
-                    </div>
+        <div>
+            <label className={segmentLabelClass}>{label}</label>
+            <input
+                type="number"
+                min={limit.min}
+                max={limit.max}
+                step={step}
+                value={draft ?? String(value)}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+                className={`${segmentInputClass} ${error ? 'border-brand-red' : 'border-brand-border'}`}
+                aria-label={label}
+                aria-invalid={error !== ''}
+            />
+            {error && <p className="mt-1 text-xs text-brand-red" role="alert">{error}</p>}
+        </div>
+    );
+};
 
-                     <div className="mt-6 p-4 rounded-lg" style={{ backgroundColor: '#F1F1F2' }}>
-                        <p className="font-bold text-brand-dark-text">PowerShops Annual Cost</p>
-                        <p className="text-2xl font-bold text-brand-dark-text mt-1">{formatCurrency(calculations.powerShopsAnnualCost)}</p>
-                        <p className="text-xs text-brand-medium-text mt-1">*Discounts apply for multi-year terms.</p>
-                    </div>
+const SegmentEditor: React.FC<{
+    segments: EmployeeSegment[];
+    term: number;
+    currency: string;
+    onChange: (segments: EmployeeSegment[]) => void;
+    onSplit: () => void;
+}> = ({ segments, term, currency, onChange, onSplit }) => {
+    const setField = <K extends keyof EmployeeSegment>(index: number, key: K, value: EmployeeSegment[K]) =>
+        onChange(segments.map((segment, i) => (i === index ? { ...segment, [key]: value } : segment)));
+    const addSegment = () => {
+        const last = segments[segments.length - 1];
+        onChange([...segments, { ...last, id: newSegmentId(), name: `Segment ${segments.length + 1}`, rolloutYear: 1 }]);
+    };
+    const inputClass = `${segmentInputClass} border-brand-border`;
 
-                    <h3 style={{...headingStyle, marginTop: '2rem'}}>Executive Summary</h3>
-                    <div style={{ backgroundColor: '#F1F1F2', padding: '1.5rem', borderRadius: '0.5rem', textAlign: 'center' }}>
-                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '1rem' }}>
-                            <div>
-                                <p style={{ textTransform: 'uppercase', fontSize: '0.875rem', letterSpacing: '0.05em', color: '#404041', fontWeight: 'bold' }}>Total ROI</p>
-                                <p style={{ fontSize: '2.25rem', fontWeight: 'bold', marginTop: '0.5rem', color: '#ED2F48' }}>{formatPercent(calculations.totalRoi)}</p>
+    return (
+        <div className="mt-8 bg-white border border-brand-border rounded-lg p-4 space-y-4">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+                <p className="font-bold text-brand-dark-text">Employee Segments</p>
+                {segments.length === 0 ? (
+                    <button onClick={onSplit} className="text-sm px-3 py-1 rounded-lg border-2 border-brand-border text-brand-medium-text hover:border-brand-red hover:text-brand-red transition-colors">
+                        Split by Segment
+                    </button>
+                ) : (
+                    <div className="flex gap-2">
+                        <button onClick={addSegment} disabled={segments.length >= MAX_SEGMENTS} className="text-sm px-3 py-1 rounded-lg border-2 border-brand-border text-brand-medium-text hover:border-brand-red hover:text-brand-red transition-colors disabled:opacity-50">
+                            Add Segment
+                        </button>
+                        <button onClick={() => onChange([])} className="text-sm px-3 py-1 rounded-lg border-2 border-brand-border text-brand-medium-text hover:border-brand-red hover:text-brand-red transition-colors">
+                            Use One Pool
+                        </button>
+                    </div>
+                )}
+            </div>
+            {segments.length === 0 ? (
+                <p className="text-xs text-brand-medium-text">The whole company is modeled as one pool. Split it to give frontline, supervisors or office staff their own headcount, pay, turnover and rollout year.</p>
+            ) : (
+                <>
+                    {segments.map((segment, index) => (
+                        <div key={segment.id} className="grid grid-cols-2 md:grid-cols-7 gap-3 items-end border-b border-brand-border pb-4 last:border-b-0 last:pb-0">
+                            <div className="col-span-2 md:col-span-1">
+                                <label className={segmentLabelClass}>Segment</label>
+                                <input type="text" value={segment.name} maxLength={MAX_SEGMENT_NAME_LENGTH} onChange={(e) => setField(index, 'name', e.target.value)} className={inputClass} />
                             </div>
+                            <SegmentNumberInput label="Employees" value={segment.employees} onChange={(value) => setField(index, 'employees', value)} limit={INPUT_LIMITS.employees} step={1} integer />
+                            <SegmentNumberInput label={`Salary (${currency})`} value={segment.salary} onChange={(value) => setField(index, 'salary', value)} limit={INPUT_LIMITS.salary} step={1000} />
+                            <SegmentNumberInput label="Turnover %" value={segment.turnover} onChange={(value) => setField(index, 'turnover', value)} limit={INPUT_LIMITS.turnover} step={1} />
+                            <SegmentNumberInput label={`Replacement (${currency})`} value={segment.replaceCost} onChange={(value) => setField(index, 'replaceCost', value)} limit={INPUT_LIMITS.replaceCost} step={500} />
                             <div>
-                                <p style={{ textTransform: 'uppercase', fontSize: '0.875rem', letterSpacing: '0.05em', color: '#404041', fontWeight: 'bold' }}>Net Benefit</p>
-                                <p style={{ fontSize: '2.25rem', fontWeight: 'bold', marginTop: '0.5rem', color: '#ED2F48' }}>{formatCurrencyK(calculations.netBenefit)}</p>
+                                <label className={segmentLabelClass}>Rollout</label>
+                                <select value={segment.rolloutYear} onChange={(e) => setField(index, 'rolloutYear', Number(e.target.value))} className={inputClass}>
+                                    {Array.from({ length: MAX_TERM_YEARS }, (_, i) => (
+                                        <option key={i + 1} value={i + 1}>Year {i + 1}{i + 1 > term ? ' (after term)' : ''}</option>
+                                    ))}
+                                </select>
                             </div>
-                            <div>
-                                <p style={{ textTransform: 'uppercase', fontSize: '0.875rem', letterSpacing: '0.05em', color: '#404041', fontWeight: 'bold' }}>Break-Even</p>
-                                <p style={{ fontSize: '2.25rem', fontWeight: 'bold', marginTop: '0.5rem', color: '#ED2F48' }}>{formatMonths(calculations.monthsToBreakEven)}</p>
+                            <div className="flex justify-end">
+                                <button onClick={() => onChange(segments.filter((_, i) => i !== index))} className="p-2 text-brand-medium-text hover:text-brand-red" aria-label={`Remove ${segment.name}`} title="Remove segment">
+                                    <Trash2 className="h-4 w-4" />
+                                </button>
                             </div>
                         </div>
+                    ))}
+                    <p className="text-xs text-brand-medium-text">Each segment's seats are billed, and its benefits ramp up, from its rollout year. The volume tier follows the total headcount.</p>
+                </>
+            )}
+        </div>
+    );
+};
+
+const SensitivityAnalysis: React.FC<{
+    inputs: RoiInputs;
+    baseRoi: number;
+    spreads: SensitivitySpreads;
+    onSpreadsChange: (spreads: SensitivitySpreads) => void;
+    monteCarlo: MonteCarloResult | null;
+    progress: number | null; // Completed trials while running, null when idle
+    onRun: () => void;
+    onCancel: () => void;
+    formatters: Formatters;
+}> = ({ inputs, baseRoi, spreads, onSpreadsChange, monteCarlo, progress, onRun, onCancel, formatters }) => {
+    const { formatPercent } = formatters;
+    const tornado = useMemo(() => buildTornado(inputs, spreads), [inputs, spreads]);
+    const tornadoData = tornado.map(bar => ({ label: bar.label, low: bar.lowRoi - baseRoi, high: bar.highRoi - baseRoi }));
+    const isRunning = progress !== null;
+
+    return (
+        <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-6">
+                {SENSITIVITY_VARIABLES.map(variable => (
+                    <SliderInput
+                        key={variable.key}
+                        label={`${variable.label} Range`}
+                        value={spreads[variable.key]}
+                        onChange={(v) => onSpreadsChange({ ...spreads, [variable.key]: v })}
+                        min={0} max={100} step={5}
+                        limit={INPUT_LIMITS.sensitivitySpread}
+                        formatValue={(v) => `±${v}%`}
+                    />
+                ))}
+            </div>
+
+            {tornadoData.length > 0 && (
+                <div className="bg-white border border-brand-border rounded-lg p-4">
+                    <p className="font-bold text-brand-dark-text">What Moves ROI Most</p>
+                    <p className="text-xs text-brand-medium-text mb-2">Change in ROI (percentage points) when each input moves to the edge of its range.</p>
+                    <div style={{ height: `${Math.max(160, tornadoData.length * 40)}px` }}>
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={tornadoData} layout="vertical" stackOffset="sign" margin={{ left: 20 }}>
+                                <CartesianGrid strokeDasharray="3 3" />
+                                <XAxis type="number" tickFormatter={(value) => `${Math.round(value)} pts`} />
+                                <YAxis type="category" dataKey="label" width={150} />
+                                <Tooltip formatter={(value: number) => `${value > 0 ? '+' : ''}${Math.round(value)} pts`} />
+                                <Legend />
+                                <ReferenceLine x={0} stroke="#404041" />
+                                <Bar dataKey="low" name="Low case" stackId="swing" fill="#58585B" />
+                                <Bar dataKey="high" name="High case" stackId="swing" fill="var(--brand-red)" />
+                            </BarChart>
+                        </ResponsiveContainer>
                     </div>
                 </div>
-            </div>
+            )}
 
-            {/* --- PAGE 2 --- */}
-            <div ref={page2Ref} style={pageStyle} className="p-8 flex flex-col justify-between">
-                <div>
-                    <h3 style={{...headingStyle, paddingTop: '2rem'}}>Benefit Analysis</h3>
-                    <div className="mb-4">
-                         {benefitsList.map(benefit => (
-                            <PdfBenefitBar
-                                key={benefit.label}
-                                label={benefit.label}
-                                value={formatCurrency(benefit.value)}
-                                percentage={maxBenefit > 0 ? (benefit.value / maxBenefit) * 100 : 0}
-                            />
-                        ))}
+            <div className="bg-white border border-brand-border rounded-lg p-4">
+                <div className="flex flex-wrap justify-between items-center gap-4">
+                    <div>
+                        <p className="font-bold text-brand-dark-text">Monte Carlo Simulation</p>
+                        <p className="text-xs text-brand-medium-text">Varies every input at once across {formatters.formatNumber(DEFAULT_TRIALS)} trials and shades the P10–P90 band on the cash-flow chart.</p>
                     </div>
-                    <div className="bg-brand-red text-white rounded-lg p-4 flex justify-between items-center mt-6">
-                        <span className="font-bold">Total Benefits Over {term} Years</span>
-                        <span className="text-2xl font-bold">{formatCurrency(calculations.totalBenefit)}</span>
+                    {isRunning ? (
+                        <button onClick={onCancel} className="flex items-center text-sm px-4 py-2 rounded-lg border-2 border-brand-medium-text text-brand-medium-text hover:border-brand-red hover:text-brand-red transition-colors">
+                            <Loader2 className="animate-spin mr-2 h-4 w-4" />
+                            {Math.round((progress / DEFAULT_TRIALS) * 100)}% — Cancel
+                            <X className="ml-2 h-4 w-4" />
+                        </button>
+                    ) : (
+                        <button onClick={onRun} className="flex items-center text-sm px-4 py-2 rounded-lg border-2 border-brand-red text-brand-red font-bold hover:bg-brand-red hover:text-white transition-colors">
+                            <Dices className="mr-2 h-4 w-4" /> {monteCarlo ? 'Re-run Simulation' : 'Run Simulation'}
+                        </button>
+                    )}
+                </div>
+                {monteCarlo && (
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+                        <AssumptionCard label="Probability ROI > 0" value={formatPercent(monteCarlo.probabilityPositiveRoi * 100)} />
+                        <AssumptionCard label="ROI P10 (downside)" value={formatPercent(monteCarlo.roiP10)} />
+                        <AssumptionCard label="ROI P50 (median)" value={formatPercent(monteCarlo.roiP50)} />
+                        <AssumptionCard label="ROI P90 (upside)" value={formatPercent(monteCarlo.roiP90)} />
                     </div>
+                )}
+            </div>
+        </div>
+    );
+};
 
-                    <div className="mt-8 text-brand-dark-text">
-                        <h3 style={headingStyle}>Cash Flow Analysis</h3>
-                        <AreaChart width={680} height={250} data={calculations.cashFlowData} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
-                            <CartesianGrid strokeDasharray="3 3" />
-                            <XAxis dataKey="year" />
-                            <YAxis tickFormatter={(value) => formatCurrencyK(value)} />
-                            <Tooltip formatter={(value: number) => formatCurrency(value)} />
-                            <Legend wrapperStyle={{color: '#404041'}} />
-                            <Area isAnimationActive={false} type="monotone" name="Cumulative Benefits" dataKey="cumulativeBenefit" stroke="#ED2F48" fill="#ED2F48" fillOpacity={0.2} />
-                            <Area isAnimationActive={false} type="monotone" name="Cumulative Costs" dataKey="cumulativeCost" stroke="#5858B" fill="#5858B" fillOpacity={0.6} />
-                        </AreaChart>
+const ScenarioComparisonTable: React.FC<{
+    scenarios: ScenarioResult[];
+    formatters: Formatters;
+    onLoad?: (scenario: Scenario) => void;
+    onRemove?: (id: string) => void;
+}> = ({ scenarios, formatters, onLoad, onRemove }) => {
+    const { formatCurrency, formatCurrencyK, formatPercent, formatMonths } = formatters;
+    const showActions = Boolean(onLoad || onRemove);
+    return (
+        <table className="w-full text-sm text-left">
+            <thead>
+                <tr className="text-brand-medium-text border-b border-brand-border">
+                    <th className="py-2 pr-4 font-medium">Scenario</th>
+                    <th className="py-2 pr-4 font-medium text-right">Total Investment</th>
+                    <th className="py-2 pr-4 font-medium text-right">Net Benefit</th>
+                    <th className="py-2 pr-4 font-medium text-right">ROI</th>
+                    <th className="py-2 pr-4 font-medium text-right">Break-Even</th>
+                    {showActions && <th className="py-2"></th>}
+                </tr>
+            </thead>
+            <tbody>
+                {scenarios.map(scenario => (
+                    <tr key={scenario.id} className="border-b border-brand-border last:border-b-0">
+                        <td className="py-3 pr-4">
+                            <span className="inline-block w-3 h-3 rounded-full mr-2 align-middle" style={{ backgroundColor: scenario.color }}></span>
+                            <strong className="text-brand-dark-text">{scenario.name}</strong>
+                        </td>
+                        <td className="py-3 pr-4 text-right">{formatCurrency(scenario.result.totalInvestment)}</td>
+                        <td className="py-3 pr-4 text-right">{formatCurrencyK(scenario.result.netBenefit)}</td>
+                        <td className="py-3 pr-4 text-right font-bold text-brand-red">{formatPercent(scenario.result.totalRoi)}</td>
+                        <td className="py-3 pr-4 text-right">{formatMonths(scenario.result.monthsToBreakEven)}</td>
+                        {showActions && (
+                            <td className="py-3 text-right whitespace-nowrap">
+                                {onLoad && (
+                                    <button onClick={() => onLoad(scenario)} className="p-1 text-brand-medium-text hover:text-brand-red" aria-label={`Load ${scenario.name}`} title="Load into calculator">
+                                        <Upload className="h-4 w-4" />
+                                    </button>
+                                )}
+                                {onRemove && (
+                                    <button onClick={() => onRemove(scenario.id)} className="p-1 ml-1 text-brand-medium-text hover:text-brand-red" aria-label={`Remove ${scenario.name}`} title="Remove scenario">
+                                        <Trash2 className="h-4 w-4" />
+                                    </button>
+                                )}
+                            </td>
+                        )}
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+};
+
+const ScenarioComparison: React.FC<{
+    scenarios: ScenarioResult[];
+    currentInputs: RoiInputs;
+    formatters: Formatters;
+    onSave: (name: string) => void;
+    onLoad: (scenario: Scenario) => void;
+    onRemove: (id: string) => void;
+}> = ({ scenarios, currentInputs, formatters, onSave, onLoad, onRemove }) => {
+    const [name, setName] = useState('');
+    const isFull = scenarios.length >= MAX_SCENARIOS;
+    const chartData = useMemo(() => buildComparisonChartData(scenarios), [scenarios]);
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave(name);
+        setName('');
+    };
+
+    return (
+        <div className="space-y-6">
+            <form onSubmit={handleSave} className="flex flex-col sm:flex-row gap-3">
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder={defaultScenarioName(currentInputs)}
+                    maxLength={60}
+                    disabled={isFull}
+                    className="flex-grow p-2 border border-brand-border rounded-lg focus:ring-2 focus:ring-brand-red focus:outline-none disabled:bg-brand-light-gray"
+                />
+                <button type="submit" disabled={isFull} className="flex items-center justify-center text-sm px-4 py-2 rounded-lg border-2 border-brand-red text-brand-red font-bold hover:bg-brand-red hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                    <Save className="mr-2 h-4 w-4" /> Save Current Scenario
+                </button>
+            </form>
+            <p className="text-xs text-brand-medium-text">
+                {isFull ? `You can compare up to ${MAX_SCENARIOS} scenarios. Remove one to save another.` : `${scenarios.length} of ${MAX_SCENARIOS} scenarios saved.`}
+            </p>
+            {scenarios.length > 0 && (
+                <>
+                    <div className="bg-white border border-brand-border rounded-lg p-4 overflow-x-auto">
+                        <ScenarioComparisonTable scenarios={scenarios} formatters={formatters} onLoad={onLoad} onRemove={onRemove} />
+                    </div>
+                    <div className="h-80 -ml-4">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={chartData}>
+                                <CartesianGrid strokeDasharray="3 3" />
+                                <XAxis dataKey="month" type="number" domain={[0, longestTerm(scenarios) * 12]} ticks={yearTicks(longestTerm(scenarios))} tickFormatter={formatYearTick} />
+                                <YAxis tickFormatter={(value) => formatters.formatCurrencyK(value)} />
+                                <Tooltip formatter={(value: number) => formatters.formatCurrency(value)} labelFormatter={(month: number) => formatMonthLabel(month)} />
+                                <Legend />
+                                {scenarios.map(scenario => (
+                                    <Line key={scenario.id} type="monotone" dataKey={scenario.id} name={scenario.name} stroke={scenario.color} strokeWidth={2} dot={false} connectNulls={false} />
+                                ))}
+                            </LineChart>
+                        </ResponsiveContainer>
                     </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+const PricingRow: React.FC<{ label: string; value: string; bold?: boolean }> = ({ label, value, bold }) => (
+    <div className={`flex justify-between py-1 ${bold ? 'font-bold text-brand-dark-text border-t border-brand-border mt-1 pt-2' : 'text-brand-medium-text'}`}>
+        <span>{label}</span>
+        <span>{value}</span>
+    </div>
+);
+
+const PricingBreakdown: React.FC<{ result: RoiResult; employees: number; formatters: Formatters }> = ({ result, employees, formatters }) => {
+    const { formatCurrency, formatNumber } = formatters;
+    const { seatTier, years, onboardingFee, discountTotal } = result.costBreakdown;
+    const platformFees = years.reduce((total, year) => total + year.platformFee, 0);
+    const phased = years.some(year => year.employees !== employees);
+    return (
+        <div className="text-sm mt-3">
+            <PricingRow label={`Seats${phased ? ' at full rollout' : ''}: ${formatNumber(employees)} × ${formatCurrency(seatTier.pricePerEmployee)} / year`} value={formatCurrency(employees * seatTier.pricePerEmployee)} />
+            {years.map(year => (
+                <PricingRow key={year.year} label={`Year ${year.year} subscription`} value={formatCurrency(year.total)} />
+            ))}
+            {discountTotal > 0 && <PricingRow label="Multi-year and negotiated discounts" value={`-${formatCurrency(discountTotal)}`} />}
+            {platformFees > 0 && <PricingRow label="Platform fees (included above)" value={formatCurrency(platformFees)} />}
+            {onboardingFee > 0 && <PricingRow label="One-time onboarding" value={formatCurrency(onboardingFee)} />}
+            <PricingRow label="Total Investment" value={formatCurrency(result.totalInvestment)} bold />
+        </div>
+    );
+};
+
+const SegmentBreakdown: React.FC<{ segments: SegmentBenefit[]; totalBenefit: number; formatters: Formatters }> = ({ segments, totalBenefit, formatters }) => {
+    const { formatCurrency, formatNumber } = formatters;
+    return (
+        <div className="overflow-x-auto mt-6">
+            <table className="w-full text-sm text-left">
+                <thead>
+                    <tr className="text-brand-medium-text border-b border-brand-border">
+                        <th className="py-2 pr-4 font-medium">Segment</th>
+                        <th className="py-2 pr-4 font-medium text-right">Employees</th>
+                        <th className="py-2 pr-4 font-medium text-right">Rollout</th>
+                        <th className="py-2 pr-4 font-medium text-right">Productivity</th>
+                        <th className="py-2 pr-4 font-medium text-right">Turnover</th>
+                        <th className="py-2 pr-4 font-medium text-right">Training</th>
+                        <th className="py-2 pr-4 font-medium text-right">Total Benefit</th>
+                        <th className="py-2 font-medium text-right">Share</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {segments.map((segment, index) => (
+                        <tr key={index} className="border-b border-brand-border last:border-b-0">
+                            <td className="py-3 pr-4"><strong className="text-brand-dark-text">{segment.name || `Segment ${index + 1}`}</strong></td>
+                            <td className="py-3 pr-4 text-right">{formatNumber(segment.employees)}</td>
+                            <td className="py-3 pr-4 text-right">Year {segment.rolloutYear}</td>
+                            <td className="py-3 pr-4 text-right">{formatCurrency(segment.productivityGains)}</td>
+                            <td className="py-3 pr-4 text-right">{formatCurrency(segment.turnoverReductionSavings)}</td>
+                            <td className="py-3 pr-4 text-right">{formatCurrency(segment.trainingTimeSavings)}</td>
+                            <td className="py-3 pr-4 text-right font-bold text-brand-dark-text">{formatCurrency(segment.totalBenefit)}</td>
+                            <td className="py-3 text-right">{totalBenefit > 0 ? Math.round(segment.totalBenefit / totalBenefit * 100) : 0}%</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
 
-                    <div className="mt-8 p-6 border rounded-lg border-brand-border bg-brand-light-gray">
-                        <div className="flex items-center mb-4">
-                             <Sparkles className="h-6 w-6 text-brand-carmine mr-3" />
-                            <h3 className="text-xl font-bold" style={{ color: '#AF222A' }}>AI-Powered Investment Insights</h3>
+// What turnover and training cost the prospect today, set against the net position
+// with PowerShops over the same term.
+const StatusQuoPanel: React.FC<{
+    result: RoiResult;
+    term: number;
+    costGrowth: number;
+    onCostGrowthChange: (value: number) => void;
+    formatters: Formatters;
+}> = ({ result, term, costGrowth, onCostGrowthChange, formatters }) => {
+    const { formatCurrency, formatCurrencyK, formatPercent } = formatters;
+    const { statusQuo } = result;
+    return (
+        <div className="mt-6 bg-white border border-brand-border rounded-lg p-4">
+            <p className="font-bold text-brand-dark-text">The Cost of Doing Nothing</p>
+            <p className="text-xs text-brand-medium-text mt-1">What turnover and training already cost, across all employees, without PowerShops.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-6 mt-4">
+                <div className="text-sm">
+                    <PricingRow label="Turnover cost / year" value={formatCurrency(statusQuo.annualTurnoverCost)} />
+                    <PricingRow label="Training hours cost / year" value={formatCurrency(statusQuo.annualTrainingCost)} />
+                    <PricingRow label="Status quo today / year" value={formatCurrency(statusQuo.annualTotal)} bold />
+                    {statusQuo.yearlyTotals.map((cost, year) => (
+                        <PricingRow key={year} label={`Year ${year + 1}`} value={formatCurrency(cost)} />
+                    ))}
+                    <PricingRow label={`Status quo over ${term} years`} value={formatCurrency(statusQuo.totalOverTerm)} bold />
+                </div>
+                <div className="space-y-4">
+                    <SliderInput label="Annual Cost Growth" value={costGrowth} onChange={onCostGrowthChange} {...INPUT_RANGES.costGrowth} limit={INPUT_LIMITS.costGrowth} formatValue={formatPercent} />
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="bg-brand-light-gray rounded-lg p-4">
+                            <p className="text-sm text-brand-medium-text">Cost of inaction</p>
+                            <p className="text-xl font-bold text-brand-dark-gray mt-1">-{formatCurrencyK(statusQuo.totalOverTerm)}</p>
                         </div>
-                        <div className="p-4 bg-white border border-brand-border rounded-lg">
-                            <SimpleMarkdown text={aiInsights || "Insights not generated."} />
+                        <div className="bg-brand-light-gray rounded-lg p-4">
+                            <p className="text-sm text-brand-medium-text">Net with PowerShops</p>
+                            <p className="text-xl font-bold text-brand-red mt-1">{formatCurrencyK(result.netBenefit)}</p>
                         </div>
                     </div>
                 </div>
-                <footer className="text-center py-4 mt-auto border-t border-brand-border">
-                    <div className="flex justify-between items-center text-sm text-brand-medium-text pt-4">
-                        <span>www.createone.com</span>
-                        <span>Contact: success@createone.com</span>
-                    </div>
-                    <p className="text-xs text-gray-500 mt-2">&copy; 2025 PowerShops by Create One - All Rights Reserved</p>
-                </footer>
             </div>
         </div>
     );
 };
 
+// Renders structured insights as plain React text; the model never supplies markup.
+const InsightSections: React.FC<{ insights: AiInsights; result: RoiResult; formatters: Formatters }> = ({ insights, result, formatters }) => (
+    <div className="text-brand-medium-text space-y-6 w-full">
+        {insights.sections.map((section, index) => (
+            <div key={index}>
+                <h4 className="font-bold text-brand-dark-text mb-1">{section.heading}</h4>
+                <p>{section.body}</p>
+                {section.keyFigures.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                        {section.keyFigures.map(id => {
+                            const figure = resolveKeyFigure(id, result, formatters);
+                            return (
+                                <span key={id} className="text-xs bg-brand-light-gray text-brand-dark-text rounded-full px-3 py-1">
+                                    {figure.label}: <span className="font-bold">{figure.value}</span>
+                                </span>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        ))}
+        {insights.source && <p className="text-xs text-brand-medium-text">{describeSource(insights.source)}.</p>}
+    </div>
+);
+
 
 // --- MAIN APPLICATION COMPONENT ---
 
+// Calculator defaults - set to minimums to force user interaction
+const DEFAULT_STATE: ShareableState = {
+    localeId: DEFAULT_LOCALE.id,
+    inputs: {
+        currency: DEFAULT_LOCALE.currency,
+        employees: INPUT_RANGES.employees.min,
+        salary: INPUT_RANGES.money[DEFAULT_LOCALE.currency].salary.min,
+        trainingHours: 0,
+        turnover: 0,
+        replaceCost: INPUT_RANGES.money[DEFAULT_LOCALE.currency].replaceCost.min,
+        term: 1,
+        discountRate: 8,
+        customDiscount: 0,
+        costGrowth: DEFAULT_COST_GROWTH,
+        drivers: DEFAULT_DRIVERS,
+        adoption: DEFAULT_ADOPTION,
+        segments: [],
+    },
+};
+
+// The lead is kept for the browser tab's session only, so a refresh doesn't send
+// the prospect back through the form. It is never written to the URL.
+const LEAD_SESSION_KEY = 'powershops-roi-lead';
+
+const loadLeadSession = () => {
+    try {
+        const stored = sessionStorage.getItem(LEAD_SESSION_KEY);
+        return stored ? JSON.parse(stored) : null;
+    } catch {
+        return null;
+    }
+};
+
+const saveLeadSession = (formData: Record<string, string>) => {
+    try {
+        sessionStorage.setItem(LEAD_SESSION_KEY, JSON.stringify(formData));
+    } catch {
+        // Storage can be unavailable (private mode, embedded frames); the session just won't persist.
+    }
+};
+
+const EMPTY_LEAD_FORM = {
+    'first-name': '',
+    'last-name': '',
+    'business-email': '',
+    company: '',
+    telephone: ''
+};
+
 // Fix: Use a named export for the App component to resolve import issues.
 export const App: React.FC = () => {
-    const [showCalculator, setShowCalculator] = useState(false);
+    const [storedLead] = useState(loadLeadSession);
+    const [leadCaptured, setLeadCaptured] = useState(Boolean(storedLead));
+    const [showCalculator, setShowCalculator] = useState(LEAD_GATE_MODE !== 'hard' || Boolean(storedLead));
+    // Soft gate: the report or insights request that sent the visitor to the form
+    const [pendingGatedAction, setPendingGatedAction] = useState<GatedAction | null>(null);
 
     // Form State
-    const [formData, setFormData] = useState({
-        'first-name': '',
-        'last-name': '',
-        'business-email': '',
-        company: '',
-        telephone: ''
-    });
+    const [formData, setFormData] = useState(storedLead ?? EMPTY_LEAD_FORM);
+    // A stored lead was only saved after the server accepted its consent.
+    const [consent, setConsent] = useState(Boolean(storedLead));
     const [isSubmitting, setIsSubmitting] = useState(false);
 
     const handleFormInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -306,6 +784,24 @@ export const App: React.FC = () => {
         }));
     };
 
+    // A rep's signed invite link pre-fills the contact and skips the form.
+    useEffect(() => {
+        const token = readInviteToken();
+        if (!token) return;
+        clearInviteToken();
+        verifyInvite(token)
+            .then(contact => {
+                setFormData(contact);
+                saveLeadSession(contact);
+                setLeadCaptured(true);
+                setShowCalculator(true);
+            })
+            .catch(error => {
+                console.error('Error verifying invite link:', error);
+                alert(`This invite link can't be used: ${error.message}`);
+            });
+    }, []);
+
     const handleFormSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsSubmitting(true);
@@ -315,7 +811,10 @@ export const App: React.FC = () => {
             console.log("Running in AI Studio, skipping Netlify Function call.");
             // Simulate a short delay to show loading state
             await new Promise(resolve => setTimeout(resolve, 500));
+            saveLeadSession(formData);
+            setLeadCaptured(true);
             setShowCalculator(true);
+            postToHost('leadSubmitted', { company: formData.company });
             setIsSubmitting(false);
             return;
         }
@@ -325,10 +824,24 @@ export const App: React.FC = () => {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
+                    'X-Session-Id': getSessionId(),
                 },
-                body: JSON.stringify(formData),
+                body: JSON.stringify({
+                    ...formData,
+                    consent: { accepted: consent, policyVersion: PRIVACY_CONFIG.policyVersion },
+                }),
             });
 
+            // The server validates the form too; show its messages rather than a generic failure.
+            if (response.status === 400) {
+                const data = await response.json().catch(() => null);
+                const fieldErrors: string[] = data?.fields ? Object.values(data.fields) : [];
+                alert(fieldErrors.length > 0
+                    ? `Please check your details:\n\n${fieldErrors.join('\n')}`
+                    : 'Please check your details and try again.');
+                return;
+            }
+
             if (!response.ok) {
                 if (response.status === 404) {
                     throw new Error('Function not found (404).');
@@ -336,7 +849,10 @@ export const App: React.FC = () => {
                 throw new Error(`Server returned an error: ${response.status} ${response.statusText}`);
             }
 
+            saveLeadSession(formData);
+            setLeadCaptured(true);
             setShowCalculator(true);
+            postToHost('leadSubmitted', { company: formData.company });
 
         } catch (error) {
             console.error('Error submitting form to Netlify Function:', error);
@@ -355,194 +871,294 @@ export const App: React.FC = () => {
         }
     };
 
-    // Calculator State - Set to minimums to force user interaction
-    const [employees, setEmployees] = useState(10);
-    const [salary, setSalary] = useState(20000);
-    const [trainingHours, setTrainingHours] = useState(0);
-    const [turnover, setTurnover] = useState(0);
-    const [replaceCost, setReplaceCost] = useState(5000);
-    const [term, setTerm] = useState(1);
+    // Assumptions restored from a shared link or a refresh, read once on load
+    const [initialState] = useState<ShareableState>(() => decodeState(window.location.hash, DEFAULT_STATE) ?? DEFAULT_STATE);
+    const initialInputs = initialState.inputs;
+
+    // Locale State - drives formatting, currency and money slider ranges
+    const [localeId, setLocaleId] = useState(initialState.localeId);
+    const locale = findLocale(localeId);
+    const currency = locale.currency;
+    const moneyRanges = INPUT_RANGES.money[currency];
+
+    // Calculator State
+    const [employees, setEmployees] = useState(initialInputs.employees);
+    const [salary, setSalary] = useState(initialInputs.salary);
+    const [trainingHours, setTrainingHours] = useState(initialInputs.trainingHours);
+    const [turnover, setTurnover] = useState(initialInputs.turnover);
+    const [replaceCost, setReplaceCost] = useState(initialInputs.replaceCost);
+    const [term, setTerm] = useState(initialInputs.term);
+    const [discountRate, setDiscountRate] = useState(initialInputs.discountRate);
+    const [customDiscount, setCustomDiscount] = useState(initialInputs.customDiscount);
+    const [costGrowth, setCostGrowth] = useState(initialInputs.costGrowth);
+    const [adoption, setAdoption] = useState<AdoptionCurve>(initialInputs.adoption);
+    const [drivers, setDrivers] = useState<BusinessDrivers>(initialInputs.drivers);
+    const [segments, setSegments] = useState<EmployeeSegment[]>(initialInputs.segments);
+
+    // Scenario Comparison State
+    const [savedScenarios, setSavedScenarios] = useState<Scenario[]>([]);
+    const scenarioResults = useMemo(() => evaluateScenarios(savedScenarios), [savedScenarios]);
+
+    // Sensitivity Analysis State
+    const [sensitivitySpreads, setSensitivitySpreads] = useState<SensitivitySpreads>(DEFAULT_SPREADS);
+    const [monteCarlo, setMonteCarlo] = useState<MonteCarloResult | null>(null);
+    const [simulationProgress, setSimulationProgress] = useState<number | null>(null);
+    const simulationAbortRef = useRef<AbortController | null>(null);
 
     // AI Insights State
-    const [aiInsights, setAiInsights] = useState('');
+    const [aiInsights, setAiInsights] = useState<AiInsights | null>(null);
+    const [aiError, setAiError] = useState('');
+    const [aiPartial, setAiPartial] = useState<AiInsights | null>(null); // Sections streamed so far
     const [isLoadingAi, setIsLoadingAi] = useState(false);
+    const insightsAbortRef = useRef<AbortController | null>(null);
     const [isRefreshDisabled, setIsRefreshDisabled] = useState(false);
     
-    // PDF Generation State & Refs
+    // PDF Generation State
     const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
-    const pdfPage1Ref = useRef<HTMLDivElement>(null);
-    const pdfPage2Ref = useRef<HTMLDivElement>(null);
-
-    const formatters = useMemo(() => ({
-        formatCurrency: (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(value),
-        formatNumber: (value: number) => new Intl.NumberFormat('en-US').format(value),
-        formatPercent: (value: number) => `${Math.round(value)}%`,
-        formatCurrencyK: (value: number) => {
-             if (Math.abs(value) >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
-             if (Math.abs(value) >= 1000) return `${Math.round(value / 1000)}K`;
-             return formatters.formatCurrency(value);
-        },
-        formatMonths: (value: number) => value > 0 ? `${value.toFixed(1)} mo` : 'N/A',
-    }), []);
+
+    const formatters = useMemo(() => createFormatters(locale), [locale]);
+
+    // With segments, the company-wide fields are derived from them
+    const assumptions: RoiInputs = useMemo(
+        () => ({
+            currency, employees, salary, trainingHours, turnover, replaceCost, term, discountRate, customDiscount, costGrowth, drivers, adoption, segments,
+            ...(segments.length > 0 ? summarizeSegments(segments) : {}),
+        }),
+        [currency, employees, salary, trainingHours, turnover, replaceCost, term, discountRate, customDiscount, costGrowth, drivers, adoption, segments]
+    );
 
     // Memoized Calculations
-    const calculations = useMemo(() => {
-        // Business logic assumptions
-        const productivityBoost = 0.05; // 5%
-        const turnoverReduction = 0.20; // 20%
-        const trainingHoursSavedPerEmployee = 10;
-        const workingHoursPerYear = 2080; // 52 weeks * 40 hours
-
-        const costPerYearPerEmployee = [500, 475, 450, 425, 400]; // Y1 to Y5
-
-        let totalInvestment = 0;
-        for (let i = 0; i < term; i++) {
-            // Use the cost for the specific year, or the last cost if term > 5
-            const annualCostForYear = employees * (costPerYearPerEmployee[i] || costPerYearPerEmployee[costPerYearPerEmployee.length - 1]);
-            totalInvestment += annualCostForYear;
-        }
-        
-        const averageAnnualCost = term > 0 ? totalInvestment / term : 0;
-        
-        // The displayed annual cost is now the average cost over the term.
-        const powerShopsAnnualCost = averageAnnualCost;
+    const calculations = useMemo(() => calculateRoi(assumptions), [assumptions]);
 
-        const hourlyRate = salary / workingHoursPerYear;
+    // Mirror the assumptions into the URL fragment once the calculator is open.
+    // replaceState keeps slider moves out of the browser history.
+    useEffect(() => {
+        if (!showCalculator) return;
+        window.history.replaceState(null, '', `#${encodeState({ localeId, inputs: assumptions })}`);
+    }, [showCalculator, localeId, assumptions]);
 
-        const annualProductivityGains = employees * salary * productivityBoost;
-        const annualTurnoverSavings = employees * (turnover / 100) * turnoverReduction * replaceCost;
-        const annualTrainingSavings = employees * trainingHoursSavedPerEmployee * hourlyRate;
-        const annualBenefit = annualProductivityGains + annualTurnoverSavings + annualTrainingSavings;
+    const [isLinkCopied, setIsLinkCopied] = useState(false);
 
-        const productivityGains = annualProductivityGains * term;
-        const turnoverReductionSavings = annualTurnoverSavings * term;
-        const trainingTimeSavings = annualTrainingSavings * term;
+    const copyShareLink = async () => {
+        try {
+            await navigator.clipboard.writeText(buildShareUrl({ localeId, inputs: assumptions }));
+            setIsLinkCopied(true);
+            setTimeout(() => setIsLinkCopied(false), 2000);
+        } catch (error) {
+            console.error("Error copying share link:", error);
+            alert("Sorry, the link could not be copied. You can copy it from your browser's address bar instead.");
+        }
+    };
 
-        const totalBenefit = productivityGains + turnoverReductionSavings + trainingTimeSavings;
-        const netBenefit = totalBenefit - totalInvestment;
-        const totalRoi = totalInvestment > 0 ? (netBenefit / totalInvestment) * 100 : 0;
+    const applyInputs = (inputs: RoiInputs) => {
+        setEmployees(inputs.employees);
+        setSalary(inputs.salary);
+        setTrainingHours(inputs.trainingHours);
+        setTurnover(inputs.turnover);
+        setReplaceCost(inputs.replaceCost);
+        setTerm(inputs.term);
+        setDiscountRate(inputs.discountRate);
+        setCustomDiscount(inputs.customDiscount);
+        setCostGrowth(inputs.costGrowth);
+        setDrivers(inputs.drivers);
+        setAdoption(inputs.adoption);
+        setSegments(inputs.segments);
+    };
 
-        const monthsToBreakEven = (annualBenefit > 0 && annualBenefit > averageAnnualCost) ? (totalInvestment / (annualBenefit - averageAnnualCost)) * 12 : 0;
+    // Splitting starts from the current pool as one segment; going back to one pool
+    // keeps the segments' company-wide totals.
+    const splitIntoSegments = () => {
+        setSegments([{ id: newSegmentId(), name: 'All employees', employees, salary, turnover, replaceCost, rolloutYear: 1 }]);
+    };
 
-        const cashFlowData = [];
-        let cumulativeCost = 0;
-        for (let i = 0; i <= term; i++) {
-            const year = i;
-            const cumulativeBenefit = annualBenefit * year;
+    const updateSegments = (next: EmployeeSegment[]) => {
+        if (next.length === 0 && segments.length > 0) {
+            const pool = summarizeSegments(segments);
+            setEmployees(pool.employees);
+            setSalary(Math.round(pool.salary));
+            setTurnover(Math.round(pool.turnover));
+            setReplaceCost(Math.round(pool.replaceCost));
+        }
+        setSegments(next);
+    };
 
-            if (year > 0) {
-                const annualCostForYear = employees * (costPerYearPerEmployee[year - 1] || costPerYearPerEmployee[costPerYearPerEmployee.length - 1]);
-                cumulativeCost += annualCostForYear;
+    // Simulation results only apply to the exact inputs they were run for
+    const currentMonteCarlo = monteCarlo && monteCarlo.inputs === assumptions ? monteCarlo : null;
+
+    const cashFlowChartData = useMemo(() => {
+        if (!currentMonteCarlo) return calculations.cashFlowData;
+        return calculations.cashFlowData.map((point, month) => {
+            const band = currentMonteCarlo.benefitBands[month];
+            return { ...point, benefitRange: [band.p10, band.p90], benefitP50: band.p50 };
+        });
+    }, [calculations, currentMonteCarlo]);
+
+    const runSimulation = async () => {
+        simulationAbortRef.current?.abort();
+        const controller = new AbortController();
+        simulationAbortRef.current = controller;
+        setSimulationProgress(0);
+        try {
+            const result = await runMonteCarlo(assumptions, sensitivitySpreads, {
+                signal: controller.signal,
+                onProgress: setSimulationProgress,
+            });
+            setMonteCarlo(result);
+        } catch (error) {
+            if (!(error instanceof DOMException && error.name === 'AbortError')) {
+                console.error("Error running Monte Carlo simulation:", error);
+            }
+        } finally {
+            if (simulationAbortRef.current === controller) {
+                simulationAbortRef.current = null;
+                setSimulationProgress(null);
             }
+        }
+    };
 
-            cashFlowData.push({
-                year: `Year ${year}`,
-                cumulativeBenefit,
-                cumulativeCost,
-                netCashFlow: cumulativeBenefit - cumulativeCost,
-            });
+    const cancelSimulation = () => {
+        simulationAbortRef.current?.abort();
+    };
+
+    const saveScenario = (name: string) => {
+        setSavedScenarios(prev => prev.length >= MAX_SCENARIOS ? prev : [...prev, createScenario(name, assumptions)]);
+    };
+
+    const removeScenario = (id: string) => {
+        setSavedScenarios(prev => prev.filter(scenario => scenario.id !== id));
+    };
+
+    // Switching currency converts the money inputs, including saved scenarios,
+    // so every figure on screen stays in a single currency.
+    const changeLocale = (id: string) => {
+        const nextCurrency = findLocale(id).currency;
+        if (nextCurrency !== currency) {
+            const converted = convertInputs(assumptions, nextCurrency);
+            setSalary(converted.salary);
+            setReplaceCost(converted.replaceCost);
+            setSegments(converted.segments);
+            setSavedScenarios(prev => prev.map(scenario => ({ ...scenario, inputs: convertInputs(scenario.inputs, nextCurrency) })));
         }
+        setLocaleId(id);
+    };
 
-        return {
-            powerShopsAnnualCost,
-            totalInvestment,
-            productivityGains,
-            turnoverReductionSavings,
-            trainingTimeSavings,
-            totalBenefit,
-            netBenefit,
-            totalRoi,
-            monthsToBreakEven,
-            cashFlowData,
+    // --- EMBED HOST ---
+    // When embedded, the host page can pre-fill assumptions, switch currency and
+    // rebrand the calculator. The ref keeps the one message listener on current state.
+    const [branding, setBranding] = useState<EmbedBranding>({});
+
+    const hostInputSetters: Record<HostInputKey, (value: number) => void> = {
+        employees: setEmployees,
+        salary: setSalary,
+        trainingHours: setTrainingHours,
+        turnover: setTurnover,
+        replaceCost: setReplaceCost,
+        term: setTerm,
+        discountRate: setDiscountRate,
+        costGrowth: setCostGrowth,
+    };
+
+    const handleHostCommand = (command: HostCommand) => {
+        if (command.type === 'setLocale') {
+            changeLocale(command.localeId);
+        } else if (command.type === 'setInputs') {
+            // Pool assumptions replace any segments, as they would in the UI
+            const { employees, salary, turnover, replaceCost } = command.inputs;
+            if ([employees, salary, turnover, replaceCost].some(value => value !== undefined)) updateSegments([]);
+            (Object.keys(command.inputs) as HostInputKey[]).forEach(key => hostInputSetters[key](command.inputs[key]!));
+        } else {
+            applyBranding(command.branding);
+            setBranding(prev => ({ ...prev, ...command.branding }));
+        }
+    };
+    const hostCommandRef = useRef(handleHostCommand);
+    hostCommandRef.current = handleHostCommand;
+
+    useEffect(() => {
+        const stopListening = listenToHost(command => hostCommandRef.current(command));
+        const stopWatching = watchHeight();
+        return () => {
+            stopListening();
+            stopWatching();
         };
-    }, [employees, salary, turnover, replaceCost, term]);
+    }, []);
+
+    // Debounced, so dragging a slider sends one event when it settles.
+    useEffect(() => {
+        if (!IS_EMBEDDED || !showCalculator) return;
+        const timer = setTimeout(() => postToHost('scenarioChanged', { scenario: buildInsightsRequest(localeId, assumptions, calculations) }), 500);
+        return () => clearTimeout(timer);
+    }, [showCalculator, localeId, assumptions, calculations]);
 
     const getAiInsights = useCallback(async () => {
         setIsLoadingAi(true);
-        setAiInsights('');
+        insightsAbortRef.current?.abort();
+        const controller = new AbortController();
+        insightsAbortRef.current = controller;
+        setAiInsights(null);
+        setAiError('');
+        setAiPartial(null);
         setIsRefreshDisabled(true);
 
-        const systemInstruction = `
-            You are a business analyst providing a professional summary of a Return on Investment (ROI) calculation for "PowerShops".
-            Your response must be structured into three specific sections, using Markdown for bold headings. **Each section must be a single, concise paragraph (2-3 sentences max).**
-            1. **Investment Value Assessment**: State the ROI, net benefit, and payback period. Explain what these strong numbers mean for the business.
-            2. **Key Performance Drivers**: Identify the largest benefit contributor (e.g., Productivity Gains). Explain the operational improvements this suggests.
-            3. **Strategic Recommendations**: Based on the strong ROI, recommend immediate implementation and tracking success.
-            The tone should be authoritative and persuasive.
-        `;
-
-        const userPrompt = `
-            Generate a concise investment analysis based on this data:
-            - Number of Employees: ${employees}
-            - Subscription Term: ${term} years
-            - Total ROI: ${formatters.formatPercent(calculations.totalRoi)}
-            - Net Benefit: ${formatters.formatCurrency(calculations.netBenefit)}
-            - Payback Period: ${formatters.formatMonths(calculations.monthsToBreakEven)}
-            - Benefit Breakdown: Productivity Gains are ${calculations.totalBenefit > 0 ? Math.round(calculations.productivityGains / calculations.totalBenefit * 100) : 0}% of the total benefit.
-            ${calculations.totalRoi > 50 ? "Because the ROI is high, conclude the 'Strategic Recommendations' section with a call to action: 'Schedule a demo to learn more about PowerShops.'" : ""}
-        `;
-
         try {
-            // New: Call the Netlify function instead of Gemini directly
-            const response = await fetch('/.netlify/functions/get-ai-insights', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ userPrompt, systemInstruction }),
+            // Stream from the Netlify function; falls back to the buffered endpoint
+            const request = buildInsightsRequest(localeId, assumptions, calculations);
+            const insights = await streamInsights(request, {
+                signal: controller.signal,
+                onPartial: setAiPartial,
             });
-
-            const data = await response.json();
-
-            if (!response.ok) {
-                // Use the error message from the function's response if available
-                throw new Error(data.error || `Server error: ${response.status}`);
-            }
-
-            setAiInsights(data.insights);
+            setAiInsights(insights);
+            trackActivity('insights_generated', request);
 
         } catch (error) {
+            if (error instanceof DOMException && error.name === 'AbortError') return;
+            if (error instanceof RateLimitError) {
+                const minutes = Math.max(1, Math.ceil(error.retryAfterSeconds / 60));
+                setAiError(`You've reached the limit for AI insights for now. Please try again in ${minutes === 1 ? 'a minute' : `about ${minutes} minutes`}.`);
+                return;
+            }
             console.error("Error fetching AI insights:", error);
-            setAiInsights(
+            setAiError(
                 error instanceof Error 
                     ? `We're sorry, an error occurred: ${error.message}`
                     : "An unknown error occurred while generating insights."
             );
         } finally {
-            setIsLoadingAi(false);
-            setTimeout(() => {
-                setIsRefreshDisabled(false);
-            }, 5000); // 5-second cooldown
+            if (insightsAbortRef.current === controller) {
+                insightsAbortRef.current = null;
+                setIsLoadingAi(false);
+                setAiPartial(null);
+                setTimeout(() => {
+                    setIsRefreshDisabled(false);
+                }, 5000); // 5-second cooldown
+            }
         }
-    }, [term, calculations, employees, formatters]);
+    }, [localeId, assumptions, calculations]);
+
+    // Cancelling discards the partial text; the user can generate again right away.
+    const cancelAiInsights = () => {
+        insightsAbortRef.current?.abort();
+        insightsAbortRef.current = null;
+        setIsLoadingAi(false);
+        setAiPartial(null);
+        setIsRefreshDisabled(false);
+    };
     
-    const downloadReport = async () => {
+    const downloadReport = () => {
         setIsGeneratingPdf(true);
-        await new Promise(resolve => setTimeout(resolve, 100)); // Delay for render
-
-        const page1Element = pdfPage1Ref.current;
-        const page2Element = pdfPage2Ref.current;
-        
-        if (!page1Element || !page2Element) {
-            console.error("PDF pages not found in the DOM.");
-            setIsGeneratingPdf(false);
-            return;
-        }
-
         try {
-            const pdf = new jsPDF('p', 'mm', 'a4', true);
-            const pdfWidth = pdf.internal.pageSize.getWidth();
-            const pdfHeight = pdf.internal.pageSize.getHeight();
-
-            // --- PAGE 1 ---
-            const canvas1 = await html2canvas(page1Element, { scale: 2, logging: false, useCORS: true });
-            pdf.addImage(canvas1.toDataURL('image/png'), 'PNG', 0, 0, pdfWidth, pdfHeight, undefined, 'FAST');
-            
-            pdf.addPage();
-            
-            // --- PAGE 2 ---
-            const canvas2 = await html2canvas(page2Element, { scale: 2, logging: false, useCORS: true });
-            pdf.addImage(canvas2.toDataURL('image/png'), 'PNG', 0, 0, pdfWidth, pdfHeight, undefined, 'FAST');
-
-            pdf.save('PowerShops_ROI_Report.pdf');
+            buildPdfReport({
+                formData,
+                inputs: assumptions,
+                result: calculations,
+                aiInsights,
+                scenarios: scenarioResults,
+                formatters,
+                reportDate: new Date(),
+            }).save('PowerShops_ROI_Report.pdf');
+            const scenario = buildInsightsRequest(localeId, assumptions, calculations);
+            trackActivity('report_downloaded', scenario);
+            postToHost('reportDownloaded', { format: 'pdf', scenario });
         } catch (error) {
             console.error("Error generating PDF:", error);
             alert("Sorry, there was an error generating the PDF report.");
@@ -551,12 +1167,54 @@ export const App: React.FC = () => {
         }
     };
 
+    const downloadWorkbook = () => {
+        try {
+            const workbook = buildExcelReport({
+                formData,
+                inputs: assumptions,
+                result: calculations,
+                reportDate: new Date(),
+            });
+            const url = URL.createObjectURL(new Blob([workbook], { type: XLSX_MIME_TYPE }));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = 'PowerShops_ROI_Analysis.xlsx';
+            link.click();
+            URL.revokeObjectURL(url);
+            const scenario = buildInsightsRequest(localeId, assumptions, calculations);
+            trackActivity('workbook_downloaded', scenario);
+            postToHost('reportDownloaded', { format: 'xlsx', scenario });
+        } catch (error) {
+            console.error("Error generating workbook:", error);
+            alert("Sorry, there was an error generating the Excel workbook.");
+        }
+    };
+
+    // With a soft gate, the reports and AI insights first send the visitor to the form.
+    const runGated = (action: GatedAction, run: () => void) => {
+        if (LEAD_GATE_MODE === 'soft' && !leadCaptured) {
+            setPendingGatedAction(action);
+            setShowCalculator(false);
+            return;
+        }
+        run();
+    };
+
+    // Picks the held-back action up again once the form has been submitted.
+    useEffect(() => {
+        if (!showCalculator || !leadCaptured || !pendingGatedAction) return;
+        setPendingGatedAction(null);
+        if (pendingGatedAction === 'report') downloadReport();
+        else if (pendingGatedAction === 'workbook') downloadWorkbook();
+        else getAiInsights();
+    }, [showCalculator, leadCaptured, pendingGatedAction]);
+
     if (!showCalculator) {
         return (
-             <div className="min-h-screen flex items-center justify-center bg-white p-4 font-sans">
+             <div className={`${IS_EMBEDDED ? '' : 'min-h-screen '}flex items-center justify-center bg-white p-4 font-sans`}>
                 <div className="max-w-5xl w-full grid md:grid-cols-2 gap-16 items-center">
                     <div className="p-4">
-                        <Logo />
+                        <Logo text={branding.logoText || undefined} />
                         <h1 className="text-6xl font-bold text-brand-dark-text mb-6 leading-tight">Unlock Your Business Potential</h1>
                         <p className="text-brand-medium-text text-lg mb-8">Discover the tangible financial impact of PowerShops on your organization. Fill out the form to access our interactive ROI calculator and see how much you can save.</p>
                         <ul className="space-y-4 text-brand-medium-text">
@@ -568,7 +1226,12 @@ export const App: React.FC = () => {
                     <div className="bg-brand-light-gray p-8 rounded-xl shadow-lg border border-brand-border">
                         <div className="text-center mb-6">
                             <h2 className="text-2xl font-bold text-brand-dark-text mb-1">Get Instant Access</h2>
-                            <p className="text-brand-medium-text">See your potential ROI in minutes.</p>
+                            <p className="text-brand-medium-text">
+                                {pendingGatedAction === 'report' ? 'Enter your details to download your report.'
+                                    : pendingGatedAction === 'workbook' ? 'Enter your details to download the Excel workbook.'
+                                    : pendingGatedAction === 'insights' ? 'Enter your details to get AI-powered insights.'
+                                    : 'See your potential ROI in minutes.'}
+                            </p>
                         </div>
                         <form name="roi-lead-capture" onSubmit={handleFormSubmit}>
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
@@ -581,9 +1244,17 @@ export const App: React.FC = () => {
                              <div className="mb-4">
                                 <input type="tel" name="telephone" placeholder="Phone Number" value={formData.telephone} onChange={handleFormInputChange} required className="w-full p-3 border border-brand-border rounded-lg focus:ring-2 focus:ring-brand-red focus:outline-none" />
                             </div>
-                            <div className="mb-6">
+                            <div className="mb-4">
                                 <input type="text" name="company" placeholder="Company Name" value={formData.company} onChange={handleFormInputChange} required className="w-full p-3 border border-brand-border rounded-lg focus:ring-2 focus:ring-brand-red focus:outline-none" />
                             </div>
+                            <label className="flex items-start gap-3 mb-6 text-sm text-brand-medium-text">
+                                <input type="checkbox" name="consent" checked={consent} onChange={(e) => setConsent(e.target.checked)} required className="mt-1 h-4 w-4 flex-shrink-0" />
+                                <span>
+                                    I agree that Create One may store these details and contact me about PowerShops, as described in the{' '}
+                                    <a href={PRIVACY_CONFIG.policyUrl} target="_blank" rel="noopener noreferrer" className="text-brand-red underline">privacy notice</a>
+                                    . I can ask for my data to be deleted at any time.
+                                </span>
+                            </label>
                             <button type="submit" disabled={isSubmitting} className="w-full bg-brand-red text-white font-bold py-3 px-4 rounded-lg hover:bg-carmine transition duration-300 flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed">
                                 {isSubmitting ? (
                                     <>
@@ -597,6 +1268,15 @@ export const App: React.FC = () => {
                                 )}
                             </button>
                         </form>
+                        {LEAD_GATE_MODE === 'soft' && (
+                            <button
+                                onClick={() => { setPendingGatedAction(null); setShowCalculator(true); }}
+                                className="mt-4 w-full flex items-center justify-center text-sm text-brand-medium-text hover:text-brand-red"
+                            >
+                                <ArrowLeft className="mr-1 h-4 w-4" />
+                                Back to the calculator
+                            </button>
+                        )}
                     </div>
                 </div>
             </div>
@@ -604,18 +1284,40 @@ export const App: React.FC = () => {
     }
     
     const emailSubject = "PowerShops Demo Request";
-    const emailBody = `Hi, I'm ${formData['first-name']} ${formData['last-name']} from ${formData.company}. I'd like to schedule a demo of PowerShops.\n\nMy calculated ROI is ${formatters.formatPercent(calculations.totalRoi)} with a net benefit of ${formatters.formatCurrency(calculations.netBenefit)}.\n\nPlease contact me at ${formData['business-email']} or ${formData.telephone} to schedule a time.`;
+    // With the soft or no gate the form may be empty, so only the details given are used.
+    const contactName = `${formData['first-name'].trim()} ${formData['last-name'].trim()}`.trim();
+    const contactCompany = formData.company.trim();
+    const contactMethods = [formData['business-email'], formData.telephone].map(value => value.trim()).filter(Boolean);
+    const emailGreeting = contactName
+        ? `Hi, I'm ${contactName}${contactCompany ? ` from ${contactCompany}` : ''}.`
+        : contactCompany ? `Hi, I'm from ${contactCompany}.` : 'Hi,';
+    const emailContact = contactMethods.length > 0 ? `\n\nPlease contact me at ${contactMethods.join(' or ')} to schedule a time.` : '';
+    const emailBody = `${emailGreeting} I'd like to schedule a demo of PowerShops.\n\nMy calculated ROI is ${formatters.formatPercent(calculations.totalRoi)} with a net benefit of ${formatters.formatCurrency(calculations.netBenefit)}.${emailContact}`;
     const mailtoLink = `mailto:success@createone.com?subject=${encodeURIComponent(emailSubject)}&body=${encodeURIComponent(emailBody)}`;
-    const { formatCurrency, formatPercent, formatNumber, formatCurrencyK, formatMonths } = formatters;
-    const assumptions = { employees, salary, trainingHours, turnover, replaceCost, term };
+    // Erasure is done by staff (delete-lead needs the admin token), who check that the
+    // request comes from the address being deleted.
+    const deletionRequestBody = `Please delete the details I submitted to the PowerShops ROI Calculator for ${formData['business-email']}.`;
+    const deletionRequestLink = `mailto:success@createone.com?subject=${encodeURIComponent('Data deletion request')}&body=${encodeURIComponent(deletionRequestBody)}`;
+    const requestDemo = () => {
+        const scenario = buildInsightsRequest(localeId, assumptions, calculations);
+        trackActivity('demo_requested', scenario);
+        postToHost('demoRequested', { scenario });
+    };
+    const { formatCurrency, formatPercent, formatOptionalPercent, formatNumber, formatCurrencyK, formatMonths } = formatters;
     
     const CustomTooltip = ({ active, payload, label }: any) => {
         if (active && payload && payload.length) {
+            const point = payload[0].payload;
             return (
                 <div className="p-4 bg-white rounded-lg shadow-lg border border-brand-border">
-                    <p className="font-bold text-brand-dark-text">{label}</p>
-                    <p className="text-sm text-brand-red">{`Benefits: ${formatCurrency(payload[0].value)}`}</p>
-                    <p className="text-sm text-brand-dark-gray">{`Costs: ${formatCurrency(payload[1].value)}`}</p>
+                    <p className="font-bold text-brand-dark-text">{formatMonthLabel(label)}</p>
+                    <p className="text-sm text-brand-red">{`Benefits: ${formatCurrency(point.cumulativeBenefit)}`}</p>
+                    {point.benefitRange && (
+                        <p className="text-sm text-brand-medium-text">{`P10–P90: ${formatCurrency(point.benefitRange[0])} – ${formatCurrency(point.benefitRange[1])}`}</p>
+                    )}
+                    <p className="text-sm text-brand-dark-gray">{`Costs: ${formatCurrency(point.cumulativeCost)}`}</p>
+                    <p className="text-sm text-brand-dark-text">{`Net position: ${formatCurrency(point.netCashFlow)}`}</p>
+                    <p className="text-sm text-brand-medium-text">{`Cost of doing nothing: ${formatCurrency(point.cumulativeInactionCost)}`}</p>
                 </div>
             );
         }
@@ -624,20 +1326,33 @@ export const App: React.FC = () => {
 
     return (
         <>
-        {isGeneratingPdf && <PdfReport formData={formData} calculations={calculations} assumptions={assumptions} aiInsights={aiInsights} formatters={formatters} page1Ref={pdfPage1Ref} page2Ref={pdfPage2Ref} />}
         <div className="bg-white font-sans text-brand-dark-text">
             <header className="bg-white p-8 border-b border-brand-border">
                 <div className="max-w-4xl mx-auto">
                     <div className="flex justify-between items-center mb-4">
-                         <Logo />
-                        <button
-                            onClick={() => setShowCalculator(false)}
-                            className="flex items-center text-sm px-4 py-2 rounded-lg border-2 border-brand-medium-text text-brand-medium-text hover:border-brand-red hover:text-brand-red transition-colors"
-                            aria-label="Go back to entry form"
-                        >
-                            <ArrowLeft className="mr-1 h-4 w-4" />
-                            Back to Form
-                        </button>
+                         <Logo text={branding.logoText || undefined} />
+                        <div className="flex items-center gap-3">
+                            <select
+                                value={localeId}
+                                onChange={(e) => changeLocale(e.target.value)}
+                                className="text-sm px-3 py-2 rounded-lg border-2 border-brand-medium-text text-brand-medium-text bg-white focus:outline-none focus:border-brand-red"
+                                aria-label="Currency and locale"
+                            >
+                                {LOCALE_OPTIONS.map(option => (
+                                    <option key={option.id} value={option.id}>{option.label}</option>
+                                ))}
+                            </select>
+                            {LEAD_GATE_MODE !== 'none' && (
+                                <button
+                                    onClick={() => setShowCalculator(false)}
+                                    className="flex items-center text-sm px-4 py-2 rounded-lg border-2 border-brand-medium-text text-brand-medium-text hover:border-brand-red hover:text-brand-red transition-colors"
+                                    aria-label="Go back to entry form"
+                                >
+                                    <ArrowLeft className="mr-1 h-4 w-4" />
+                                    {leadCaptured ? 'Back to Form' : 'Enter Your Details'}
+                                </button>
+                            )}
+                        </div>
                     </div>
                     <h1 className="text-4xl font-bold text-brand-dark-text">PowerShops Investment Analysis Report</h1>
                 </div>
@@ -649,30 +1364,55 @@ export const App: React.FC = () => {
                     <div className="p-8">
                         <h3 className="text-sm font-bold text-brand-carmine tracking-wider uppercase mb-4">Client Information</h3>
                         <div className="grid grid-cols-2 gap-x-8 gap-y-4 text-sm">
-                            <div><span className="text-brand-medium-text">Company:</span><br/><strong className="text-brand-dark-text">{formData.company}</strong></div>
-                            <div><span className="text-brand-medium-text">Contact:</span><br/><strong className="text-brand-dark-text">{formData['first-name']} {formData['last-name']}</strong></div>
-                            <div><span className="text-brand-medium-text">Email:</span><br/><strong className="text-brand-dark-text">{formData['business-email']}</strong></div>
-                            <div><span className="text-brand-medium-text">Phone:</span><br/><strong className="text-brand-dark-text">{formData.telephone}</strong></div>
-                            <div><span className="text-brand-medium-text">Report Date:</span><br/><strong className="text-brand-dark-text">{new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}</strong></div>
+                            {leadCaptured && (
+                                <>
+                                    <div><span className="text-brand-medium-text">Company:</span><br/><strong className="text-brand-dark-text">{formData.company}</strong></div>
+                                    <div><span className="text-brand-medium-text">Contact:</span><br/><strong className="text-brand-dark-text">{formData['first-name']} {formData['last-name']}</strong></div>
+                                    <div><span className="text-brand-medium-text">Email:</span><br/><strong className="text-brand-dark-text">{formData['business-email']}</strong></div>
+                                    <div><span className="text-brand-medium-text">Phone:</span><br/><strong className="text-brand-dark-text">{formData.telephone}</strong></div>
+                                </>
+                            )}
+                            <div><span className="text-brand-medium-text">Report Date:</span><br/><strong className="text-brand-dark-text">{formatters.formatDate(new Date())}</strong></div>
                             <div><span className="text-brand-medium-text">Analysis Period:</span><br/><strong className="text-brand-dark-text">{term} Years</strong></div>
                         </div>
+                        {leadCaptured && (
+                            <a
+                                href={deletionRequestLink}
+                                className="inline-block mt-4 text-xs text-brand-medium-text underline hover:text-brand-red"
+                            >
+                                Request deletion of my details
+                            </a>
+                        )}
                     </div>
 
                     {/* --- Analysis Assumptions --- */}
                     <div className="p-8 border-t border-brand-border">
-                        <h3 className="text-xl font-bold text-brand-carmine mb-4">Analysis Assumptions</h3>
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="text-xl font-bold text-brand-carmine">Analysis Assumptions</h3>
+                            <span className="text-sm text-brand-medium-text">Preset: <strong className="text-brand-dark-text">{activePresetName(drivers)}</strong></span>
+                        </div>
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-6">
-                           <SliderInput label="Number of Employees" value={employees} onChange={setEmployees} min={10} max={2000} step={10} formatValue={formatNumber} />
-                           <SliderInput label="Average Employee Annual Salary" value={salary} onChange={setSalary} min={20000} max={200000} step={1000} formatValue={formatCurrency} />
-                           <SliderInput label="Annual Employee Training Hours" value={trainingHours} onChange={setTrainingHours} min={0} max={100} step={1} formatValue={(v) => `${v} hrs`} />
-                           <SliderInput label="Annual Employee Turnover Rate" value={turnover} onChange={setTurnover} min={0} max={100} step={1} formatValue={formatPercent} />
-                           <SliderInput label="Replacement Cost per Employee" value={replaceCost} onChange={setReplaceCost} min={5000} max={100000} step={1000} formatValue={formatCurrency} />
-                           <SliderInput label="Subscription Term" value={term} onChange={setTerm} min={1} max={5} step={1} formatValue={(v) => `${v} years`} />
+                           {segments.length === 0 && <SliderInput label="Number of Employees" value={employees} onChange={setEmployees} {...INPUT_RANGES.employees} limit={INPUT_LIMITS.employees} formatValue={formatNumber} />}
+                           {segments.length === 0 && <SliderInput label="Average Employee Annual Salary" value={salary} onChange={setSalary} {...moneyRanges.salary} limit={INPUT_LIMITS.salary} formatValue={formatCurrency} />}
+                           <SliderInput label="Annual Employee Training Hours" value={trainingHours} onChange={setTrainingHours} {...INPUT_RANGES.trainingHours} limit={INPUT_LIMITS.trainingHours} formatValue={(v) => `${v} hrs (${formatNumber(trainingHoursSavedPerEmployee(v, drivers))} saved)`} />
+                           {segments.length === 0 && <SliderInput label="Annual Employee Turnover Rate" value={turnover} onChange={setTurnover} {...INPUT_RANGES.turnover} limit={INPUT_LIMITS.turnover} formatValue={formatPercent} />}
+                           {segments.length === 0 && <SliderInput label="Replacement Cost per Employee" value={replaceCost} onChange={setReplaceCost} {...moneyRanges.replaceCost} limit={INPUT_LIMITS.replaceCost} formatValue={formatCurrency} />}
+                           <SliderInput label="Subscription Term" value={term} onChange={setTerm} min={1} max={MAX_TERM_YEARS} step={1} limit={INPUT_LIMITS.term} formatValue={(v) => `${v} years`} />
+                           <SliderInput label="Discount Rate (for NPV)" value={discountRate} onChange={setDiscountRate} {...INPUT_RANGES.discountRate} limit={INPUT_LIMITS.discountRate} formatValue={formatPercent} />
                         </div>
+                        <SegmentEditor segments={segments} term={term} currency={currency} onChange={updateSegments} onSplit={splitIntoSegments} />
+                        <AdoptionCurveInput curve={adoption} term={term} onChange={setAdoption} />
+                        <AdvancedAssumptionsPanel drivers={drivers} onChange={setDrivers} />
                         <div className="mt-8 bg-white border border-brand-border rounded-lg p-4">
                             <p className="font-bold text-brand-dark-text">PowerShops Annual Cost</p>
                             <p className="text-2xl font-bold text-brand-dark-text mt-1">{formatCurrency(calculations.powerShopsAnnualCost)}</p>
-                            <p className="text-xs text-brand-medium-text mt-1">*Discounts apply for multi-year terms.</p>
+                            <p className="text-xs text-brand-medium-text mt-1">*Average per year over the term, after discounts.</p>
+                            <PricingBreakdown result={calculations} employees={assumptions.employees} formatters={formatters} />
+                            {DEFAULT_PRICING_SCHEDULE.maxCustomDiscountPercent > 0 && (
+                                <div className="mt-4">
+                                    <SliderInput label="Negotiated Discount" value={customDiscount} onChange={setCustomDiscount} min={0} max={DEFAULT_PRICING_SCHEDULE.maxCustomDiscountPercent} step={1} limit={INPUT_LIMITS.customDiscount} formatValue={formatPercent} />
+                                </div>
+                            )}
                         </div>
                     </div>
                     
@@ -683,7 +1423,11 @@ export const App: React.FC = () => {
                             <ExecutiveSummaryCard title="Total ROI" value={formatPercent(calculations.totalRoi)} />
                             <ExecutiveSummaryCard title="Net Benefit" value={formatCurrencyK(calculations.netBenefit)} />
                             <ExecutiveSummaryCard title="Break-Even" value={formatMonths(calculations.monthsToBreakEven)} />
+                            <ExecutiveSummaryCard title={`NPV @ ${formatPercent(discountRate)}`} value={formatCurrencyK(calculations.npv)} />
+                            <ExecutiveSummaryCard title="IRR" value={formatOptionalPercent(calculations.irr)} />
+                            <ExecutiveSummaryCard title="Discounted Payback" value={formatMonths(calculations.discountedPaybackMonths)} />
                         </div>
+                        <StatusQuoPanel result={calculations} term={term} costGrowth={costGrowth} onCostGrowthChange={setCostGrowth} formatters={formatters} />
                     </div>
 
                     {/* --- Benefit Analysis --- */}
@@ -694,6 +1438,9 @@ export const App: React.FC = () => {
                             <BenefitAnalysisBar name="Turnover Reduction Savings" value={formatCurrency(calculations.turnoverReductionSavings)} percentage={calculations.totalBenefit > 0 ? calculations.turnoverReductionSavings / calculations.totalBenefit * 100 : 0} colorClassName="bg-brand-red" />
                             <BenefitAnalysisBar name="Training Time Savings" value={formatCurrency(calculations.trainingTimeSavings)} percentage={calculations.totalBenefit > 0 ? calculations.trainingTimeSavings / calculations.totalBenefit * 100 : 0} colorClassName="bg-brand-red" />
                         </div>
+                        {calculations.segmentBenefits.length > 0 && (
+                            <SegmentBreakdown segments={calculations.segmentBenefits} totalBenefit={calculations.totalBenefit} formatters={formatters} />
+                        )}
                          <div className="bg-brand-red text-white rounded-lg p-4 flex justify-between items-center mt-6">
                             <span className="font-bold">Total Benefits Over {term} Years</span>
                             <span className="text-2xl font-bold">{formatCurrency(calculations.totalBenefit)}</span>
@@ -705,19 +1452,52 @@ export const App: React.FC = () => {
                         <h3 className="text-xl font-bold text-brand-carmine mb-4">Cash Flow Analysis</h3>
                         <div className="h-80 -ml-4">
                              <ResponsiveContainer width="100%" height="100%">
-                                <AreaChart data={calculations.cashFlowData}>
+                                <AreaChart data={cashFlowChartData}>
                                     <CartesianGrid strokeDasharray="3 3" />
-                                    <XAxis dataKey="year" />
+                                    <XAxis dataKey="month" type="number" domain={[0, term * 12]} ticks={yearTicks(term)} tickFormatter={formatYearTick} />
                                     <YAxis tickFormatter={(value) => formatCurrencyK(value)} />
                                     <Tooltip content={<CustomTooltip />} />
                                     <Legend />
-                                    <Area type="monotone" dataKey="cumulativeBenefit" name="Cumulative Benefits" stroke="#ED2F48" fill="#ED2F48" fillOpacity={0.2} />
-                                    <Area type="monotone" dataKey="cumulativeCost" name="Cumulative Costs" stroke="#58585B" fill="#58585B" fillOpacity={0.6} />
+                                    {calculations.monthsToBreakEven > 0 && <ReferenceLine x={calculations.monthsToBreakEven} stroke="var(--brand-carmine)" strokeDasharray="4 4" label={{ value: 'Break-even', position: 'insideTopRight', fill: 'var(--brand-carmine)', fontSize: 12 }} />}
+                                    <Area type="monotone" dataKey="cumulativeBenefit" name="Cumulative Benefits" stroke="var(--brand-red)" fill="var(--brand-red)" fillOpacity={0.2} />
+                                    <Area type="stepAfter" dataKey="cumulativeCost" name="Cumulative Costs" stroke="#58585B" fill="#58585B" fillOpacity={0.6} />
+                                    <Area type="monotone" dataKey="cumulativeInactionCost" name="Cost of Doing Nothing" stroke="#404041" strokeDasharray="6 3" fill="#404041" fillOpacity={0.08} />
+                                    {currentMonteCarlo && <Area type="monotone" dataKey="benefitRange" name="Benefits P10–P90" stroke="none" fill="var(--brand-carmine)" fillOpacity={0.15} />}
+                                    {currentMonteCarlo && <Area type="monotone" dataKey="benefitP50" name="Benefits P50" stroke="var(--brand-carmine)" strokeDasharray="5 5" fill="none" />}
                                 </AreaChart>
                             </ResponsiveContainer>
                         </div>
                     </div>
 
+                    {/* --- Sensitivity Analysis --- */}
+                    <div className="p-8 border-t border-brand-border">
+                        <h3 className="text-xl font-bold text-brand-carmine mb-4">Sensitivity Analysis</h3>
+                        <SensitivityAnalysis
+                            inputs={assumptions}
+                            baseRoi={calculations.totalRoi}
+                            spreads={sensitivitySpreads}
+                            onSpreadsChange={setSensitivitySpreads}
+                            monteCarlo={currentMonteCarlo}
+                            progress={simulationProgress}
+                            onRun={runSimulation}
+                            onCancel={cancelSimulation}
+                            formatters={formatters}
+                        />
+                    </div>
+
+                    {/* --- Scenario Comparison --- */}
+                    <div className="p-8 border-t border-brand-border">
+                        <h3 className="text-xl font-bold text-brand-carmine mb-4">Scenario Comparison</h3>
+                        <ScenarioComparison
+                            scenarios={scenarioResults}
+                            currentInputs={assumptions}
+                            formatters={formatters}
+                            onSave={saveScenario}
+                            onLoad={(scenario) => applyInputs(scenario.inputs)}
+                            onRemove={removeScenario}
+                        />
+                    </div>
+
                     {/* --- AI Insights --- */}
                     <div className="p-8 border-t border-brand-border">
                         <div className="flex justify-between items-center mb-4">
@@ -725,8 +1505,8 @@ export const App: React.FC = () => {
                                 <Sparkles className="h-6 w-6 text-brand-carmine mr-3" />
                                 <h3 className="text-xl font-bold text-brand-carmine">AI-Powered Investment Insights</h3>
                             </div>
-                           {aiInsights && !isLoadingAi && (
-                                <button onClick={getAiInsights} disabled={isRefreshDisabled} className="flex items-center text-sm px-4 py-2 rounded-lg border-2 border-brand-medium-text text-brand-medium-text hover:border-brand-red hover:text-brand-red transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                           {(aiInsights || aiError) && !isLoadingAi && (
+                                <button onClick={() => runGated('insights', getAiInsights)} disabled={isRefreshDisabled} className="flex items-center text-sm px-4 py-2 rounded-lg border-2 border-brand-medium-text text-brand-medium-text hover:border-brand-red hover:text-brand-red transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
                                     {isRefreshDisabled ? <Loader2 className="animate-spin mr-2 h-4 w-4" /> : <RefreshCw className="mr-2 h-4 w-4" />}
                                     {isRefreshDisabled ? 'Wait...' : 'Regenerate'}
                                 </button>
@@ -734,16 +1514,31 @@ export const App: React.FC = () => {
                         </div>
                         <div className="p-6 bg-white border border-brand-border rounded-lg min-h-[150px] flex items-center justify-center">
                              {isLoadingAi ? (
-                                <div className="text-center">
-                                    <Loader2 className="animate-spin h-8 w-8 text-brand-red mx-auto mb-2" />
-                                    <p className="text-brand-medium-text">Analyzing your results...</p>
+                                <div className="w-full">
+                                    {aiPartial && aiPartial.sections.length > 0 ? (
+                                        <InsightSections insights={aiPartial} result={calculations} formatters={formatters} />
+                                    ) : (
+                                        <div className="text-center">
+                                            <Loader2 className="animate-spin h-8 w-8 text-brand-red mx-auto mb-2" />
+                                            <p className="text-brand-medium-text">Analyzing your results...</p>
+                                        </div>
+                                    )}
+                                    <div className="flex justify-center mt-4">
+                                        <button onClick={cancelAiInsights} className="flex items-center text-sm px-4 py-2 rounded-lg border-2 border-brand-medium-text text-brand-medium-text hover:border-brand-red hover:text-brand-red transition-colors">
+                                            {aiPartial && <Loader2 className="animate-spin mr-2 h-4 w-4" />}
+                                            Cancel
+                                            <X className="ml-2 h-4 w-4" />
+                                        </button>
+                                    </div>
                                 </div>
                             ) : aiInsights ? (
-                                <SimpleMarkdown text={aiInsights} />
+                                <InsightSections insights={aiInsights} result={calculations} formatters={formatters} />
+                            ) : aiError ? (
+                                <p className="text-brand-medium-text">{aiError}</p>
                             ) : (
                                 <div className="text-center">
                                     <p className="text-brand-medium-text mb-4">Unlock strategic recommendations based on your data.</p>
-                                    <button onClick={getAiInsights} disabled={isLoadingAi} className="flex items-center justify-center bg-brand-red text-white font-bold py-2 px-4 rounded-lg hover:bg-carmine transition duration-300 disabled:opacity-50">
+                                    <button onClick={() => runGated('insights', getAiInsights)} disabled={isLoadingAi} className="flex items-center justify-center bg-brand-red text-white font-bold py-2 px-4 rounded-lg hover:bg-carmine transition duration-300 disabled:opacity-50">
                                         <Sparkles className="mr-2 h-5 w-5" /> Generate Insights
                                     </button>
                                 </div>
@@ -759,11 +1554,18 @@ export const App: React.FC = () => {
                      <h2 className="text-3xl font-bold text-brand-dark-text">Ready to Unlock Your Potential?</h2>
                     <p className="text-brand-medium-text my-4 max-w-2xl mx-auto">See how PowerShops can transform your organization. Schedule a personalized demo with our team to explore the platform's features and discuss your specific business needs.</p>
                     <div className="mt-8 flex flex-col sm:flex-row justify-center items-center gap-4">
-                        <button onClick={downloadReport} disabled={isGeneratingPdf} className="flex items-center justify-center bg-white text-brand-red font-bold py-3 px-6 rounded-lg border-2 border-brand-red hover:bg-brand-red hover:text-white transition duration-300 w-full sm:w-auto disabled:opacity-50">
+                        <button onClick={() => runGated('report', downloadReport)} disabled={isGeneratingPdf} className="flex items-center justify-center bg-white text-brand-red font-bold py-3 px-6 rounded-lg border-2 border-brand-red hover:bg-brand-red hover:text-white transition duration-300 w-full sm:w-auto disabled:opacity-50">
                              {isGeneratingPdf ? <Loader2 className="animate-spin mr-2 h-5 w-5" /> : <Download className="mr-2 h-5 w-5" />}
                              {isGeneratingPdf ? 'Generating PDF...' : 'Download Full Report'}
                         </button>
-                         <a href={mailtoLink} className="flex items-center justify-center bg-brand-red text-white font-bold py-3 px-6 rounded-lg hover:bg-carmine transition duration-300 w-full sm:w-auto">
+                        <button onClick={() => runGated('workbook', downloadWorkbook)} className="flex items-center justify-center bg-white text-brand-red font-bold py-3 px-6 rounded-lg border-2 border-brand-red hover:bg-brand-red hover:text-white transition duration-300 w-full sm:w-auto">
+                            <FileSpreadsheet className="mr-2 h-5 w-5" /> Download Excel
+                        </button>
+                        <button onClick={copyShareLink} className="flex items-center justify-center bg-white text-brand-medium-text font-bold py-3 px-6 rounded-lg border-2 border-brand-medium-text hover:border-brand-red hover:text-brand-red transition duration-300 w-full sm:w-auto">
+                            {isLinkCopied ? <Check className="mr-2 h-5 w-5" /> : <Link className="mr-2 h-5 w-5" />}
+                            {isLinkCopied ? 'Link Copied!' : 'Copy Link'}
+                        </button>
+                         <a href={mailtoLink} onClick={requestDemo} className="flex items-center justify-center bg-brand-red text-white font-bold py-3 px-6 rounded-lg hover:bg-carmine transition duration-300 w-full sm:w-auto">
                             <Users className="mr-2 h-5 w-5" /> Schedule a Demo
                         </a>
                     </div>
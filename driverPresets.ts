@@ -0,0 +1,47 @@
+import { BusinessDrivers, DEFAULT_DRIVERS } from './roiEngine';
+
+// --- BUSINESS DRIVER PRESETS ---
+// Named, defensible answers to "where does 5% come from?". Sales can start from a
+// preset and fine-tune individual drivers in the Advanced Assumptions panel.
+
+export type DriverPresetId = 'conservative' | 'expected' | 'aggressive';
+
+export interface DriverPreset {
+    id: DriverPresetId;
+    name: string;
+    description: string;
+    drivers: BusinessDrivers;
+}
+
+export const DRIVER_PRESETS: DriverPreset[] = [
+    {
+        id: 'conservative',
+        name: 'Conservative',
+        description: 'Lower-bound outcomes for cautious buyers and finance reviews.',
+        drivers: { productivityBoost: 0.03, turnoverReduction: 0.10, trainingEfficiency: 0.15, maxTrainingHoursSaved: 5, workingHoursPerYear: 2080 },
+    },
+    {
+        id: 'expected',
+        name: 'Expected',
+        description: 'Typical results observed across PowerShops customers.',
+        drivers: DEFAULT_DRIVERS,
+    },
+    {
+        id: 'aggressive',
+        name: 'Aggressive',
+        description: 'Upper-bound outcomes for high-engagement rollouts.',
+        drivers: { productivityBoost: 0.08, turnoverReduction: 0.30, trainingEfficiency: 0.35, maxTrainingHoursSaved: 15, workingHoursPerYear: 2080 },
+    },
+];
+
+export const CUSTOM_PRESET_NAME = 'Custom';
+
+const driversEqual = (a: BusinessDrivers, b: BusinessDrivers): boolean =>
+    (Object.keys(a) as (keyof BusinessDrivers)[]).every((key) => Math.abs(a[key] - b[key]) < 1e-9);
+
+// Returns the preset whose drivers exactly match, or undefined once any driver is overridden.
+export const findPreset = (drivers: BusinessDrivers): DriverPreset | undefined =>
+    DRIVER_PRESETS.find((preset) => driversEqual(preset.drivers, drivers));
+
+export const activePresetName = (drivers: BusinessDrivers): string =>
+    findPreset(drivers)?.name ?? CUSTOM_PRESET_NAME;
@@ -0,0 +1,143 @@
+import { LOCALE_OPTIONS } from './locale';
+import { INPUT_LIMITS } from './inputRanges';
+import { RoiInputs } from './roiEngine';
+import { asRecord, isFiniteNumber } from './guards';
+
+// --- EMBED MODE ---
+// Inside the iframe created by the loader script (public/embed.js) the calculator
+// talks to the host page over postMessage. Messages in both directions are
+// `{ source: 'powershops-roi', type, payload }`; the README documents the protocol.
+// The loader passes the host's origin in the query string. Messages are only sent
+// to, and accepted from, that origin, so a page that lies about it hears nothing.
+
+export const EMBED_MESSAGE_SOURCE = 'powershops-roi';
+
+// Host origins allowed to embed the calculator, set per build with the comma-separated
+// EMBED_ALLOWED_ORIGINS environment variable. Any origin may embed it when unset.
+const ALLOWED_ORIGINS = (process.env.EMBED_ALLOWED_ORIGINS ?? '').split(',').map(origin => origin.trim()).filter(Boolean);
+
+const readHostOrigin = (): string | null => {
+    const params = new URLSearchParams(window.location.search);
+    const origin = params.get('origin');
+    if (window.parent === window || !params.has('embed') || !origin) return null;
+    if (ALLOWED_ORIGINS.length > 0 && !ALLOWED_ORIGINS.includes(origin)) {
+        console.warn(`Embedding from ${origin} is not allowed; the host page API is disabled.`);
+        return null;
+    }
+    return origin;
+};
+
+export const EMBED_HOST_ORIGIN = readHostOrigin();
+export const IS_EMBEDDED = EMBED_HOST_ORIGIN !== null;
+
+// --- HOST COMMANDS ---
+
+export const HOST_INPUT_KEYS = ['employees', 'salary', 'trainingHours', 'turnover', 'replaceCost', 'term', 'discountRate', 'costGrowth'] as const;
+export type HostInputKey = typeof HOST_INPUT_KEYS[number];
+export type HostInputs = Partial<Pick<RoiInputs, HostInputKey>>;
+
+export interface EmbedBranding {
+    primaryColor?: string; // Buttons, key figures and benefit charts
+    headingColor?: string;
+    logoText?: string;
+}
+
+export type HostCommand =
+    | { type: 'setLocale'; localeId: string }
+    | { type: 'setInputs'; inputs: HostInputs }
+    | { type: 'setBranding'; branding: EmbedBranding };
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const MAX_LOGO_TEXT_LENGTH = 40;
+
+const isHexColor = (value: unknown): value is string => typeof value === 'string' && HEX_COLOR.test(value);
+
+// Keeps the assumptions that are numbers within their hard limits; money values are
+// in the calculator's current currency.
+const parseHostInputs = (raw: unknown): HostInputs => {
+    const fields = asRecord(raw);
+    const inputs: HostInputs = {};
+    HOST_INPUT_KEYS.forEach(key => {
+        const value = fields[key];
+        const limit = INPUT_LIMITS[key];
+        if (!isFiniteNumber(value) || value < limit.min || value > limit.max) return;
+        inputs[key] = key === 'employees' || key === 'term' ? Math.round(value) : value;
+    });
+    return inputs;
+};
+
+const parseBranding = (raw: unknown): EmbedBranding => {
+    const { primaryColor, headingColor, logoText } = asRecord(raw);
+    const branding: EmbedBranding = {};
+    if (isHexColor(primaryColor)) branding.primaryColor = primaryColor;
+    if (isHexColor(headingColor)) branding.headingColor = headingColor;
+    if (typeof logoText === 'string') branding.logoText = logoText.trim().slice(0, MAX_LOGO_TEXT_LENGTH);
+    return branding;
+};
+
+// A locale id wins over a currency; a currency picks its first locale.
+const parseLocale = (raw: unknown): string | null => {
+    const { locale, currency } = asRecord(raw);
+    if (typeof locale === 'string' && LOCALE_OPTIONS.some(option => option.id === locale)) return locale;
+    if (typeof currency === 'string') return LOCALE_OPTIONS.find(option => option.currency === currency)?.id ?? null;
+    return null;
+};
+
+// `init` carries every option at once; the locale is applied first so the money
+// inputs that follow are read in the new currency.
+const toCommands = (type: unknown, payload: unknown): HostCommand[] => {
+    const { inputs, branding } = asRecord(payload);
+    const commands: HostCommand[] = [];
+    const localeId = type === 'init' || type === 'setCurrency' ? parseLocale(payload) : null;
+    if (localeId) commands.push({ type: 'setLocale', localeId });
+    if (type === 'init' || type === 'setInputs') commands.push({ type: 'setInputs', inputs: parseHostInputs(inputs) });
+    if (type === 'init' || type === 'setBranding') commands.push({ type: 'setBranding', branding: parseBranding(branding) });
+    return commands;
+};
+
+// Listens for the host page's commands and then announces `ready`. Returns the
+// function that stops listening.
+export const listenToHost = (onCommand: (command: HostCommand) => void): (() => void) => {
+    if (!EMBED_HOST_ORIGIN) return () => {};
+    const onMessage = (event: MessageEvent) => {
+        if (event.origin !== EMBED_HOST_ORIGIN || event.source !== window.parent) return;
+        const message = asRecord(event.data);
+        if (message.source !== EMBED_MESSAGE_SOURCE) return;
+        toCommands(message.type, message.payload).forEach(onCommand);
+    };
+    window.addEventListener('message', onMessage);
+    postToHost('ready');
+    return () => window.removeEventListener('message', onMessage);
+};
+
+// Recolours the brand classes and charts through the CSS variables set in index.html.
+export const applyBranding = ({ primaryColor, headingColor }: EmbedBranding) => {
+    if (primaryColor) document.documentElement.style.setProperty('--brand-red', primaryColor);
+    if (headingColor) document.documentElement.style.setProperty('--brand-carmine', headingColor);
+};
+
+// --- EVENTS ---
+
+export type EmbedEventType = 'ready' | 'resize' | 'leadSubmitted' | 'scenarioChanged' | 'reportDownloaded' | 'demoRequested';
+
+export const postToHost = (type: EmbedEventType, payload: Record<string, unknown> = {}) => {
+    if (!EMBED_HOST_ORIGIN) return;
+    window.parent.postMessage({ source: EMBED_MESSAGE_SOURCE, type, payload }, EMBED_HOST_ORIGIN);
+};
+
+// Reports the page height whenever it changes, so the loader can size the iframe
+// to fit without a scrollbar. Returns the function that stops watching.
+export const watchHeight = (): (() => void) => {
+    if (!EMBED_HOST_ORIGIN) return () => {};
+    let lastHeight = 0;
+    const report = () => {
+        const height = Math.ceil(document.body.getBoundingClientRect().height);
+        if (height === lastHeight) return;
+        lastHeight = height;
+        postToHost('resize', { height });
+    };
+    const observer = new ResizeObserver(report);
+    observer.observe(document.body);
+    report();
+    return () => observer.disconnect();
+};
@@ -0,0 +1,557 @@
+import { DEFAULT_ADOPTION, MAX_TERM_YEARS, EmployeeSegment, RoiInputs, RoiResult, segmentsOf } from './roiEngine';
+import { activePresetName } from './driverPresets';
+import { DEFAULT_PRICING_SCHEDULE, PricingSchedule, convertPricingSchedule } from './pricing';
+import { XlsxCell, XlsxDefinedName, XlsxSheet, XlsxStyle, cellRef, columnName, sheetRef, writeXlsx } from './xlsxWriter';
+
+// --- EXCEL REPORT ---
+// A workbook that lets a finance team check the math. Every calculated cell is a
+// formula over the Inputs, Segments and Pricing sheets, mirroring roiEngine.ts step
+// by step, so changing an input in Excel recomputes the ROI as the calculator does.
+// The Summary sheet shows the calculator's own figures next to the recalculated ones.
+
+export interface ExcelReportData {
+    formData: Record<string, string>;
+    inputs: RoiInputs;
+    result: RoiResult;
+    reportDate: Date;
+    pricing?: PricingSchedule;
+}
+
+const SHEETS = {
+    summary: 'Summary',
+    inputs: 'Inputs',
+    segments: 'Segments',
+    cashFlow: 'Cash Flow',
+    monthly: 'Monthly',
+    pricing: 'Pricing',
+};
+
+const MAX_MONTHS = MAX_TERM_YEARS * 12;
+
+const COLORS = {
+    carmine: 'AF222A',
+    typography: '404041',
+    mediumText: '6D6E70',
+    lightGray: 'F1F1F2',
+    input: '1F4E9C', // Finance convention: inputs in blue, formulas in black
+};
+
+const currencyFormat = (currency: string): string => {
+    const symbol = new Intl.NumberFormat('en-US', { style: 'currency', currency })
+        .formatToParts(0)
+        .find(part => part.type === 'currency')?.value ?? currency;
+    return `"${symbol}"#,##0;-"${symbol}"#,##0`;
+};
+
+const createStyles = (currency: string) => {
+    const money = currencyFormat(currency);
+    const input = (style: XlsxStyle): XlsxStyle => ({ ...style, color: COLORS.input });
+    return {
+        title: { bold: true, fontSize: 14, color: COLORS.typography } as XlsxStyle,
+        note: { italic: true, color: COLORS.mediumText } as XlsxStyle,
+        section: { bold: true, color: COLORS.carmine } as XlsxStyle,
+        header: { bold: true, fill: COLORS.lightGray } as XlsxStyle,
+        label: {} as XlsxStyle,
+        bold: { bold: true } as XlsxStyle,
+        money: { numFmt: money } as XlsxStyle,
+        moneyBold: { numFmt: money, bold: true } as XlsxStyle,
+        integer: { numFmt: '#,##0' } as XlsxStyle,
+        decimal: { numFmt: '#,##0.00' } as XlsxStyle,
+        factor: { numFmt: '0.0000' } as XlsxStyle,
+        months: { numFmt: '0.0' } as XlsxStyle,
+        percent: { numFmt: '0.0%' } as XlsxStyle,
+        percentBold: { numFmt: '0.0%', bold: true } as XlsxStyle,
+        inputText: input({}),
+        inputInteger: input({ numFmt: '#,##0' }),
+        inputDecimal: input({ numFmt: '#,##0.0' }),
+        inputMoney: input({ numFmt: money }),
+        inputPercent: input({ numFmt: '0.0%' }),
+    };
+};
+
+type Styles = ReturnType<typeof createStyles>;
+
+const createSheet = (name: string, columnWidths: number[]) => {
+    const sheet: XlsxSheet = { name, rows: [], columnWidths };
+    // `column` is 0-based (A = 0), `row` is 1-based as in Excel.
+    const set = (column: number, row: number, cell: XlsxCell) => {
+        while (sheet.rows.length < row) sheet.rows.push([]);
+        const cells = sheet.rows[row - 1];
+        while (cells.length < column) cells.push(null);
+        cells[column] = cell;
+    };
+    const row = (rowNumber: number, cells: (XlsxCell | null)[]) =>
+        cells.forEach((cell, column) => { if (cell) set(column, rowNumber, cell); });
+    return { sheet, set, row };
+};
+
+const text = (value: string, style?: XlsxStyle): XlsxCell => ({ value, style });
+const num = (value: number, style?: XlsxStyle): XlsxCell => ({ value, style });
+const formula = (expression: string, style?: XlsxStyle): XlsxCell => ({ formula: expression, style });
+
+const absolute = (column: number, row: number) => `$${cellRef(column, row).replace(/(\d+)$/, '$$$1')}`;
+
+const columnRange = (sheetName: string, column: number, firstRow: number, lastRow: number) =>
+    `${sheetRef(sheetName)}!${absolute(column, firstRow)}:${absolute(column, lastRow)}`;
+
+// --- INPUTS ---
+
+const buildInputsSheet = (data: ExcelReportData, styles: Styles, names: XlsxDefinedName[]): XlsxSheet => {
+    const { inputs } = data;
+    const { sheet, set, row } = createSheet(SHEETS.inputs, [44, 16, 56]);
+    const define = (name: string, rowNumber: number) => names.push({ name, ref: `${sheetRef(SHEETS.inputs)}!${absolute(1, rowNumber)}` });
+
+    row(1, [text('PowerShops ROI – Inputs', styles.title)]);
+    row(2, [text('Values in blue are inputs. Change them and every other sheet recalculates.', styles.note)]);
+    row(4, [text('Input', styles.header), text('Value', styles.header), text('Notes', styles.header)]);
+
+    const adoption = inputs.adoption;
+    const yearlyPercent = adoption.kind === 'yearly' && adoption.yearlyPercent.length > 0 ? adoption.yearlyPercent : [100];
+    const monthsToFullAdoption = adoption.kind === 'sCurve'
+        ? adoption.monthsToFullAdoption
+        : DEFAULT_ADOPTION.kind === 'sCurve' ? DEFAULT_ADOPTION.monthsToFullAdoption : 12;
+
+    type InputRow = { label: string; name?: string; cell: XlsxCell; note?: string } | { section: string } | null;
+    const rows: InputRow[] = [
+        { label: 'Currency', cell: text(inputs.currency, styles.bold), note: 'All amounts in this workbook. Not an input: export again to change it.' },
+        { label: 'Employees', cell: formula('Employees', styles.integer), note: 'Headcount, salary, turnover and replacement cost are set per segment on the Segments sheet.' },
+        { label: 'Training hours per employee per year', name: 'TrainingHours', cell: num(inputs.trainingHours, styles.inputDecimal) },
+        { label: 'Subscription term (years)', name: 'Term', cell: num(inputs.term, styles.inputInteger), note: `Whole years, 1 to ${MAX_TERM_YEARS}.` },
+        { label: 'Discount rate for NPV', name: 'DiscountRate', cell: num(inputs.discountRate / 100, styles.inputPercent) },
+        { label: 'Negotiated discount', name: 'CustomDiscount', cell: num(inputs.customDiscount / 100, styles.inputPercent), note: 'Capped at the maximum on the Pricing sheet.' },
+        null,
+        { section: `Business drivers (${activePresetName(inputs.drivers)})` },
+        { label: 'Productivity boost', name: 'ProductivityBoost', cell: num(inputs.drivers.productivityBoost, styles.inputPercent), note: 'Share of salary recovered as productive time.' },
+        { label: 'Turnover reduction', name: 'TurnoverReduction', cell: num(inputs.drivers.turnoverReduction, styles.inputPercent), note: 'Share of annual departures avoided.' },
+        { label: 'Training efficiency gain', name: 'TrainingEfficiency', cell: num(inputs.drivers.trainingEfficiency, styles.inputPercent), note: 'Share of current training hours saved.' },
+        { label: 'Max training hours saved per employee', name: 'MaxTrainingHoursSaved', cell: num(inputs.drivers.maxTrainingHoursSaved, styles.inputDecimal) },
+        { label: 'Working hours per year', name: 'WorkingHoursPerYear', cell: num(inputs.drivers.workingHoursPerYear, styles.inputInteger) },
+        null,
+        { section: 'Adoption' },
+        { label: 'Adoption model', name: 'AdoptionModel', cell: text(adoption.kind === 'sCurve' ? 'S-curve' : 'Yearly', styles.inputText), note: '"S-curve" or "Yearly".' },
+        { label: 'Months to full adoption (S-curve)', name: 'MonthsToFullAdoption', cell: num(monthsToFullAdoption, styles.inputInteger), note: 'Logistic curve from 5% to 95% over this many months.' },
+    ];
+
+    let rowNumber = 5;
+    rows.forEach(entry => {
+        if (entry && 'section' in entry) {
+            set(0, rowNumber, text(entry.section, styles.section));
+        } else if (entry && 'label' in entry) {
+            row(rowNumber, [text(entry.label), entry.cell, entry.note ? text(entry.note, styles.note) : null]);
+            if (entry.name) define(entry.name, rowNumber);
+        }
+        rowNumber++;
+    });
+
+    // The calculator repeats the last yearly entry; the workbook spells every year out.
+    const firstYearRow = rowNumber;
+    for (let year = 1; year <= MAX_TERM_YEARS; year++) {
+        const percent = yearlyPercent[Math.min(year, yearlyPercent.length) - 1];
+        row(rowNumber, [
+            text(`Year ${year} adoption (Yearly)`),
+            num(percent / 100, styles.inputPercent),
+            year === 1 ? text('Share of the full benefit realized in each contract year.', styles.note) : null,
+        ]);
+        rowNumber++;
+    }
+    names.push({ name: 'YearlyAdoption', ref: columnRange(SHEETS.inputs, 1, firstYearRow, rowNumber - 1) });
+
+    return sheet;
+};
+
+// --- PRICING ---
+
+const buildPricingSheet = (data: ExcelReportData, styles: Styles, names: XlsxDefinedName[]): XlsxSheet => {
+    const base = data.pricing ?? DEFAULT_PRICING_SCHEDULE;
+    const schedule = convertPricingSchedule(base, data.inputs.currency);
+    const { sheet, set, row } = createSheet(SHEETS.pricing, [40, 18, 48]);
+    const define = (name: string, rowNumber: number) => names.push({ name, ref: `${sheetRef(SHEETS.pricing)}!${absolute(1, rowNumber)}` });
+
+    row(1, [text(`Pricing schedule ${schedule.version}`, styles.title)]);
+    row(2, [text(base.baseCurrency === data.inputs.currency
+        ? `List prices in ${base.baseCurrency}.`
+        : `Converted from ${base.baseCurrency} at the fixed rate of ${base.exchangeRates[data.inputs.currency] / base.exchangeRates[base.baseCurrency]} ${data.inputs.currency} per ${base.baseCurrency}.`, styles.note)]);
+
+    row(4, [text('Seats from (employees)', styles.header), text('Price per employee per year', styles.header)]);
+    const firstTierRow = 5;
+    schedule.seatTiers.forEach((tier, i) => row(firstTierRow + i, [num(tier.minEmployees, styles.inputInteger), num(tier.pricePerEmployee, styles.inputMoney)]));
+    const lastTierRow = firstTierRow + schedule.seatTiers.length - 1;
+    names.push({ name: 'SeatTierMins', ref: columnRange(SHEETS.pricing, 0, firstTierRow, lastTierRow) });
+    names.push({ name: 'SeatTierPrices', ref: columnRange(SHEETS.pricing, 1, firstTierRow, lastTierRow) });
+    set(2, firstTierRow, text('The highest tier the employee count reaches applies to every seat.', styles.note));
+
+    let rowNumber = lastTierRow + 2;
+    const fees: [string, string, XlsxCell][] = [
+        ['Platform fee per year', 'PlatformFee', num(schedule.platformFeePerYear, styles.inputMoney)],
+        ['Onboarding fee, base', 'OnboardingBase', num(schedule.onboardingFee.base, styles.inputMoney)],
+        ['Onboarding fee, per employee', 'OnboardingPerEmployee', num(schedule.onboardingFee.perEmployee, styles.inputMoney)],
+        ['Maximum negotiated discount', 'MaxCustomDiscount', num(schedule.maxCustomDiscountPercent / 100, styles.inputPercent)],
+    ];
+    fees.forEach(([label, name, cell]) => {
+        row(rowNumber, [text(label), cell]);
+        define(name, rowNumber);
+        rowNumber++;
+    });
+
+    rowNumber++;
+    row(rowNumber, [text('Contract year', styles.header), text('Seat discount', styles.header)]);
+    rowNumber++;
+    const firstDiscountRow = rowNumber;
+    const discounts = schedule.yearDiscountPercent.length > 0 ? schedule.yearDiscountPercent : [0];
+    for (let year = 1; year <= MAX_TERM_YEARS; year++) {
+        row(rowNumber, [text(`Year ${year}`), num(discounts[Math.min(year, discounts.length) - 1] / 100, styles.inputPercent)]);
+        rowNumber++;
+    }
+    names.push({ name: 'YearDiscounts', ref: columnRange(SHEETS.pricing, 1, firstDiscountRow, rowNumber - 1) });
+
+    rowNumber++;
+    row(rowNumber, [text('Applied to this scenario', styles.section)]);
+    rowNumber++;
+    const applied: [string, string, XlsxCell, string][] = [
+        ['Seat price per employee', 'SeatPrice', formula('IFERROR(LOOKUP(Employees,SeatTierMins,SeatTierPrices),INDEX(SeatTierPrices,1))', styles.money), ''],
+        ['Onboarding fee', 'OnboardingFee', formula('IF(Term>0,OnboardingBase+Employees*OnboardingPerEmployee,0)', styles.money), 'Billed once, with year 1.'],
+        ['Negotiated discount applied', 'CustomDiscountRate', formula('MIN(MAX(CustomDiscount,0),MaxCustomDiscount)', styles.percent), 'Applies to the whole recurring charge, after the seat discount.'],
+    ];
+    applied.forEach(([label, name, cell, note]) => {
+        row(rowNumber, [text(label), cell, note ? text(note, styles.note) : null]);
+        define(name, rowNumber);
+        rowNumber++;
+    });
+
+    return sheet;
+};
+
+// --- LAYOUT ---
+// Fixed positions shared by the sheets that reference each other.
+
+const SEGMENTS = {
+    firstRow: 5,
+    columns: {
+        name: 0, employees: 1, salary: 2, turnover: 3, replaceCost: 4, rolloutYear: 5, hourlyRate: 6,
+        annualProductivity: 7, annualTurnover: 8, annualTraining: 9, annualBenefit: 10,
+        firstAdoptedYear: 11, // One column per contract year
+        adoptedYears: 11 + MAX_TERM_YEARS,
+        productivity: 12 + MAX_TERM_YEARS, turnoverSavings: 13 + MAX_TERM_YEARS, training: 14 + MAX_TERM_YEARS, benefit: 15 + MAX_TERM_YEARS,
+    },
+};
+
+const CASH_FLOW = {
+    firstYearRow: 13,
+    lastYearRow: 13 + MAX_TERM_YEARS - 1,
+    totalRow: 13 + MAX_TERM_YEARS,
+    firstPeriodRow: 13 + MAX_TERM_YEARS + 4,
+    columns: {
+        year: 0, employees: 1, productivity: 2, turnover: 3, training: 4, benefit: 5,
+        seats: 6, seatDiscount: 7, platformFee: 8, negotiatedDiscount: 9, subscription: 10, onboarding: 11, cashCost: 12,
+    },
+    periodColumns: { period: 0, benefit: 1, cost: 2, net: 3, factor: 4, presentValue: 5, cumulative: 6, payback: 7 },
+};
+const lastPeriodRow = CASH_FLOW.firstPeriodRow + MAX_TERM_YEARS;
+
+const MONTHLY = {
+    rolloutRow: 3, // Months before each segment's rollout
+    firstRow: 5, // Month 0
+    columns: { month: 0, benefit: 1, cost: 2, cumulativeBenefit: 3, cumulativeCost: 4, net: 5, helperLabel: 7, helperValue: 8 },
+    firstSegmentColumn: 10, // One adoption column per segment
+    lastNegativeRef: 'I5',
+    breakEvenRef: 'I6',
+};
+const monthRow = (month: number) => MONTHLY.firstRow + month;
+const segmentAdoptionColumn = (index: number) => MONTHLY.firstSegmentColumn + index;
+
+// --- SEGMENTS ---
+
+const buildSegmentsSheet = (segments: EmployeeSegment[], styles: Styles, names: XlsxDefinedName[]): XlsxSheet => {
+    const c = SEGMENTS.columns;
+    const { sheet, row } = createSheet(SHEETS.segments, [24, 12, 14, 11, 14, 10, 11, 16, 16, 16, 16, ...Array(MAX_TERM_YEARS).fill(9), 10, 16, 16, 16, 16]);
+    const firstRow = SEGMENTS.firstRow;
+    const lastRow = firstRow + segments.length - 1;
+    const totalRow = lastRow + 1;
+    const monthly = sheetRef(SHEETS.monthly);
+
+    row(1, [text('Employee segments', styles.title)]);
+    row(2, [text('Each segment starts paying for seats, and ramps up along the adoption curve, in its rollout year.', styles.note)]);
+    row(3, [text('The segment rows are fixed: the totals, the named ranges and the Monthly adoption columns cover only the segments exported, so rows added here are not modeled. To add or remove a segment, change it in the calculator and export again.', styles.note)]);
+    row(4, [
+        'Segment', 'Employees', 'Salary', 'Turnover', 'Replacement cost', 'Rollout year', 'Hourly rate',
+        'Productivity / yr', 'Turnover savings / yr', 'Training savings / yr', 'Full benefit / yr',
+        ...Array.from({ length: MAX_TERM_YEARS }, (_, i) => `Year ${i + 1} adoption`),
+        'Adopted years', 'Productivity gains', 'Turnover savings', 'Training savings', 'Total benefit',
+    ].map(label => text(label, styles.header)));
+
+    segments.forEach((segment, index) => {
+        const r = firstRow + index;
+        const at = (column: number) => cellRef(column, r);
+        row(r, [
+            text(segment.name, styles.inputText),
+            num(segment.employees, styles.inputInteger),
+            num(segment.salary, styles.inputMoney),
+            num(segment.turnover / 100, styles.inputPercent),
+            num(segment.replaceCost, styles.inputMoney),
+            num(segment.rolloutYear, styles.inputInteger),
+            formula(`IF(WorkingHoursPerYear>0,${at(c.salary)}/WorkingHoursPerYear,0)`, styles.decimal),
+            formula(`${at(c.employees)}*${at(c.salary)}*ProductivityBoost`, styles.money),
+            formula(`${at(c.employees)}*${at(c.turnover)}*TurnoverReduction*${at(c.replaceCost)}`, styles.money),
+            formula(`${at(c.employees)}*TrainingHoursSaved*${at(c.hourlyRate)}`, styles.money),
+            formula(`SUM(${at(c.annualProductivity)}:${at(c.annualTraining)})`, styles.money),
+            // Mean monthly adoption over each year: its adoption-weighted share of a full year
+            ...Array.from({ length: MAX_TERM_YEARS }, (_, year) => {
+                const column = segmentAdoptionColumn(index);
+                return formula(`AVERAGE(${monthly}!${cellRef(column, monthRow(year * 12 + 1))}:${cellRef(column, monthRow((year + 1) * 12))})`, styles.percent);
+            }),
+            formula(`SUM(${at(c.firstAdoptedYear)}:${at(c.firstAdoptedYear + MAX_TERM_YEARS - 1)})`, styles.decimal),
+            formula(`${at(c.annualProductivity)}*${at(c.adoptedYears)}`, styles.money),
+            formula(`${at(c.annualTurnover)}*${at(c.adoptedYears)}`, styles.money),
+            formula(`${at(c.annualTraining)}*${at(c.adoptedYears)}`, styles.money),
+            formula(`SUM(${at(c.productivity)}:${at(c.training)})`, styles.money),
+        ]);
+    });
+
+    const sumColumn = (column: number, style: XlsxStyle) =>
+        formula(`SUM(${cellRef(column, firstRow)}:${cellRef(column, lastRow)})`, style);
+    row(totalRow, [
+        text('Total', styles.bold),
+        sumColumn(c.employees, styles.integer),
+        null, null, null, null, null,
+        sumColumn(c.annualProductivity, styles.moneyBold),
+        sumColumn(c.annualTurnover, styles.moneyBold),
+        sumColumn(c.annualTraining, styles.moneyBold),
+        sumColumn(c.annualBenefit, styles.moneyBold),
+        ...Array(MAX_TERM_YEARS + 1).fill(null),
+        sumColumn(c.productivity, styles.moneyBold),
+        sumColumn(c.turnoverSavings, styles.moneyBold),
+        sumColumn(c.training, styles.moneyBold),
+        sumColumn(c.benefit, styles.moneyBold),
+    ]);
+
+    names.push({ name: 'Employees', ref: `${sheetRef(SHEETS.segments)}!${absolute(c.employees, totalRow)}` });
+    const defineColumn = (name: string, column: number) => names.push({ name, ref: columnRange(SHEETS.segments, column, firstRow, lastRow) });
+    defineColumn('SegmentEmployees', c.employees);
+    defineColumn('SegmentRollout', c.rolloutYear);
+    defineColumn('SegmentProductivity', c.annualProductivity);
+    defineColumn('SegmentTurnover', c.annualTurnover);
+    defineColumn('SegmentTraining', c.annualTraining);
+
+    return sheet;
+};
+
+// --- CASH FLOW ---
+
+const buildCashFlowSheet = (segmentCount: number, styles: Styles, names: XlsxDefinedName[]): XlsxSheet => {
+    const { sheet, row } = createSheet(SHEETS.cashFlow, [34, 12, 16, 16, 16, 16, 16, 14, 14, 16, 16, 14, 16]);
+    const c = CASH_FLOW.columns;
+    const define = (name: string, rowNumber: number) => names.push({ name, ref: `${sheetRef(SHEETS.cashFlow)}!${absolute(1, rowNumber)}` });
+
+    row(1, [text('Year-by-year cash flow', styles.title)]);
+    row(2, [text('The subscription is billed annually in advance. Benefits accrue monthly with adoption (see Monthly) and count at year end for NPV and IRR.', styles.note)]);
+
+    row(4, [text('Annual benefit at full adoption', styles.section)]);
+    const fullBenefit: [string, string, string, XlsxStyle][] = [
+        ['Training hours saved per employee', 'TrainingHoursSaved', 'MAX(0,MIN(TrainingHours*TrainingEfficiency,MaxTrainingHoursSaved))', styles.decimal],
+        ['Productivity gains', 'AnnualProductivity', 'SUM(SegmentProductivity)', styles.money],
+        ['Turnover reduction savings', 'AnnualTurnover', 'SUM(SegmentTurnover)', styles.money],
+        ['Training time savings', 'AnnualTraining', 'SUM(SegmentTraining)', styles.money],
+        ['Total', 'AnnualFullBenefit', 'AnnualProductivity+AnnualTurnover+AnnualTraining', styles.moneyBold],
+    ];
+    fullBenefit.forEach(([label, name, expression, style], i) => {
+        row(5 + i, [text(label), formula(expression, style)]);
+        define(name, 5 + i);
+    });
+
+    row(CASH_FLOW.firstYearRow - 1, [
+        'Contract year', 'Seats billed', 'Productivity gains', 'Turnover savings', 'Training savings', 'Total benefit',
+        'Seats', 'Seat discount', 'Platform fee', 'Negotiated discount', 'Subscription', 'Onboarding', 'Cash cost',
+    ].map(label => text(label, styles.header)));
+
+    const lastSegmentRow = SEGMENTS.firstRow + segmentCount - 1;
+    for (let year = 1; year <= MAX_TERM_YEARS; year++) {
+        const r = CASH_FLOW.firstYearRow + year - 1;
+        const at = (column: number) => cellRef(column, r);
+        const inTerm = (expression: string) => `IF(${at(c.year)}<=Term,${expression},0)`;
+        const adopted = columnRange(SHEETS.segments, SEGMENTS.columns.firstAdoptedYear + year - 1, SEGMENTS.firstRow, lastSegmentRow);
+        row(r, [
+            num(year, styles.integer),
+            // Segments are billed from their rollout year
+            formula(inTerm(`SUMIF(SegmentRollout,"<="&${at(c.year)},SegmentEmployees)`), styles.integer),
+            formula(`SUMPRODUCT(SegmentProductivity,${adopted})`, styles.money),
+            formula(`SUMPRODUCT(SegmentTurnover,${adopted})`, styles.money),
+            formula(`SUMPRODUCT(SegmentTraining,${adopted})`, styles.money),
+            formula(`SUM(${at(c.productivity)}:${at(c.training)})`, styles.money),
+            formula(`${at(c.employees)}*SeatPrice`, styles.money),
+            formula(`${at(c.seats)}*INDEX(YearDiscounts,${at(c.year)})`, styles.money),
+            formula(inTerm('PlatformFee'), styles.money),
+            formula(`(${at(c.seats)}-${at(c.seatDiscount)}+${at(c.platformFee)})*CustomDiscountRate`, styles.money),
+            formula(`${at(c.seats)}-${at(c.seatDiscount)}+${at(c.platformFee)}-${at(c.negotiatedDiscount)}`, styles.money),
+            formula(`IF(${at(c.year)}=1,OnboardingFee,0)`, styles.money),
+            formula(`${at(c.subscription)}+${at(c.onboarding)}`, styles.money),
+        ]);
+    }
+
+    const sumColumn = (column: number) =>
+        formula(`SUM(${cellRef(column, CASH_FLOW.firstYearRow)}:${cellRef(column, CASH_FLOW.lastYearRow)})`, styles.moneyBold);
+    row(CASH_FLOW.totalRow, [
+        text('Total over the term', styles.bold),
+        null,
+        ...Array.from({ length: c.cashCost - c.employees }, (_, i) => sumColumn(c.productivity + i)),
+    ]);
+
+    const p = CASH_FLOW.periodColumns;
+    row(CASH_FLOW.firstPeriodRow - 2, [text('Discounted cash flow', styles.section)]);
+    row(CASH_FLOW.firstPeriodRow - 1, [
+        'Period (years from signing)', 'Benefit at period end', 'Cost billed', 'Net cash flow', 'Discount factor',
+        'Present value', 'Cumulative PV', 'Payback (months)',
+    ].map(label => text(label, styles.header)));
+
+    for (let period = 0; period <= MAX_TERM_YEARS; period++) {
+        const r = CASH_FLOW.firstPeriodRow + period;
+        const at = (column: number) => cellRef(column, r);
+        const previous = (column: number) => cellRef(column, r - 1);
+        // Period N receives contract year N's benefit and pays contract year N+1's bill.
+        const benefit = period === 0 ? num(0, styles.money) : formula(cellRef(c.benefit, CASH_FLOW.firstYearRow + period - 1), styles.money);
+        const cost = period === MAX_TERM_YEARS ? num(0, styles.money) : formula(cellRef(c.cashCost, CASH_FLOW.firstYearRow + period), styles.money);
+        row(r, [
+            num(period, styles.integer),
+            benefit,
+            cost,
+            formula(`${at(p.benefit)}-${at(p.cost)}`, styles.money),
+            formula(`1/(1+DiscountRate)^${at(p.period)}`, styles.factor),
+            formula(`${at(p.net)}*${at(p.factor)}`, styles.money),
+            formula(period === 0 ? at(p.presentValue) : `${previous(p.cumulative)}+${at(p.presentValue)}`, styles.money),
+            // Interpolated within the year in which cumulative PV turns non-negative
+            period === 0 ? null : formula(`IF(AND(${previous(p.cumulative)}<0,${at(p.cumulative)}>=0),(${at(p.period)}-1+(-${previous(p.cumulative)}/${at(p.presentValue)}))*12,"")`, styles.months),
+        ]);
+    }
+    names.push({ name: 'CashFlows', ref: columnRange(SHEETS.cashFlow, p.net, CASH_FLOW.firstPeriodRow, lastPeriodRow) });
+
+    return sheet;
+};
+
+// --- MONTHLY ---
+
+// Adoption in month `{m}` since the segment's rollout (see adoptionForMonth)
+const ADOPTION = 'IF(AdoptionModel="Yearly",MAX(0,MIN(1,INDEX(YearlyAdoption,MIN(ROUNDUP({m}/12,0),' + MAX_TERM_YEARS + ')))),'
+    + 'IF(OR(MonthsToFullAdoption<=0,{m}-0.5>=MonthsToFullAdoption),1,'
+    + '(1/(1+EXP(-(2*LN(19)/MonthsToFullAdoption)*(({m}-0.5)-MonthsToFullAdoption/2)))-0.05)/0.9))';
+
+const buildMonthlySheet = (segments: EmployeeSegment[], styles: Styles): XlsxSheet => {
+    const { sheet, row, set } = createSheet(SHEETS.monthly, [10, 16, 16, 18, 18, 18, 4, 32, 12, 4, ...segments.map(() => 14)]);
+    const m = MONTHLY.columns;
+    const cashCosts = columnRange(SHEETS.cashFlow, CASH_FLOW.columns.cashCost, CASH_FLOW.firstYearRow, CASH_FLOW.lastYearRow);
+    const firstRow = MONTHLY.firstRow;
+    const lastRow = monthRow(MAX_MONTHS);
+    const rolloutRow = MONTHLY.rolloutRow;
+
+    row(1, [text('Month-by-month cash position', styles.title)]);
+    row(2, [text('Adoption and break-even are worked out by month. Months after the term stay at zero.', styles.note)]);
+    set(m.helperLabel, rolloutRow, text('Months before rollout, per segment:', styles.note));
+    row(4, ['Month', 'Benefit', 'Cost billed', 'Cumulative benefit', 'Cumulative cost', 'Net position']
+        .map(label => text(label, styles.header)));
+
+    segments.forEach((segment, index) => {
+        const column = segmentAdoptionColumn(index);
+        set(column, rolloutRow, formula(`(${sheetRef(SHEETS.segments)}!${absolute(SEGMENTS.columns.rolloutYear, SEGMENTS.firstRow + index)}-1)*12`, styles.integer));
+        set(column, 4, text(`Adoption: ${segment.name}`, styles.header));
+    });
+
+    for (let month = 0; month <= MAX_MONTHS; month++) {
+        const r = monthRow(month);
+        const at = (column: number) => cellRef(column, r);
+        const monthRef = absolute(m.month, r).replace(/\$(\d+)$/, '$1');
+        // Σ full annual benefit / 12 × adoption, over the segments
+        const benefit = segments
+            .map((_, index) => `${sheetRef(SHEETS.segments)}!${absolute(SEGMENTS.columns.annualBenefit, SEGMENTS.firstRow + index)}*${at(segmentAdoptionColumn(index))}`)
+            .join('+');
+        row(r, [
+            num(month, styles.integer),
+            formula(`(${benefit})/12`, styles.money),
+            // Each contract year is billed on its first day
+            formula(`IF(AND(${at(m.month)}<Term*12,MOD(${at(m.month)},12)=0),INDEX(${cashCosts},${at(m.month)}/12+1),0)`, styles.money),
+            formula(month === 0 ? at(m.benefit) : `${cellRef(m.cumulativeBenefit, r - 1)}+${at(m.benefit)}`, styles.money),
+            formula(month === 0 ? at(m.cost) : `${cellRef(m.cumulativeCost, r - 1)}+${at(m.cost)}`, styles.money),
+            formula(`${at(m.cumulativeBenefit)}-${at(m.cumulativeCost)}`, styles.money),
+        ]);
+        segments.forEach((_, index) => {
+            const column = segmentAdoptionColumn(index);
+            const offset = `${columnName(column)}$${rolloutRow}`;
+            const sinceRollout = `(${monthRef}-${offset})`;
+            set(column, r, month === 0
+                ? num(0, styles.percent)
+                : formula(`IF(OR(${monthRef}>Term*12,${monthRef}<=${offset}),0,${ADOPTION.replace(/\{m\}/g, sinceRollout)})`, styles.percent));
+        });
+    }
+
+    // Break-even is the last month the position is negative, interpolated to the next
+    // month; 0 when it never recovers within the term (see breakEvenMonths).
+    const months = `${absolute(m.month, firstRow)}:${absolute(m.month, lastRow)}`;
+    const net = `${absolute(m.net, firstRow)}:${absolute(m.net, lastRow)}`;
+    const lastNegative = MONTHLY.lastNegativeRef;
+    set(m.helperLabel, 5, text('Last month with a negative position'));
+    set(m.helperValue, 5, formula(`SUMPRODUCT(MAX((${net}<0)*(${months}<=Term*12)*(${months}+1)))-1`, styles.integer));
+    set(m.helperLabel, 6, text('Months to break-even', styles.bold));
+    set(m.helperValue, 6, formula(`IF(OR(${lastNegative}<0,${lastNegative}>=Term*12),0,${lastNegative}+(-INDEX(${net},${lastNegative}+1))/(INDEX(${net},${lastNegative}+2)-INDEX(${net},${lastNegative}+1)))`, styles.months));
+
+    return sheet;
+};
+
+// --- SUMMARY ---
+
+const buildSummarySheet = (data: ExcelReportData, styles: Styles): XlsxSheet => {
+    const { result, inputs, formData, reportDate } = data;
+    const { sheet, row } = createSheet(SHEETS.summary, [36, 18, 22, 60]);
+    const cashFlow = sheetRef(SHEETS.cashFlow);
+    const yearSum = (column: number) =>
+        `SUM(${cashFlow}!${cellRef(column, CASH_FLOW.firstYearRow)}:${cellRef(column, CASH_FLOW.lastYearRow)})`;
+    const c = CASH_FLOW.columns;
+    const paybackRange = `${cashFlow}!${cellRef(CASH_FLOW.periodColumns.payback, CASH_FLOW.firstPeriodRow + 1)}:${cellRef(CASH_FLOW.periodColumns.payback, lastPeriodRow)}`;
+
+    row(1, [text('PowerShops ROI Summary', styles.title)]);
+    const preparedFor = [formData.company, [formData['first-name'], formData['last-name']].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+    row(2, [text(`${preparedFor ? `Prepared for ${preparedFor}, ` : ''}${reportDate.toISOString().slice(0, 10)}. ${inputs.term}-year term, amounts in ${inputs.currency}.`, styles.note)]);
+    row(4, [text('Metric', styles.header), text('Workbook', styles.header), text('Calculator at export', styles.header)]);
+
+    const metrics: [string, string, number | string, XlsxStyle][] = [
+        ['Total investment', yearSum(c.cashCost), result.totalInvestment, styles.money],
+        ['Productivity gains', yearSum(c.productivity), result.productivityGains, styles.money],
+        ['Turnover reduction savings', yearSum(c.turnover), result.turnoverReductionSavings, styles.money],
+        ['Training time savings', yearSum(c.training), result.trainingTimeSavings, styles.money],
+        ['Total benefit', 'SUM(B6:B8)', result.totalBenefit, styles.moneyBold],
+        ['Net benefit', 'B9-B5', result.netBenefit, styles.moneyBold],
+        ['Total ROI', 'IF(B5>0,B10/B5,0)', result.totalRoi / 100, styles.percentBold],
+        ['Months to break-even', `${sheetRef(SHEETS.monthly)}!${MONTHLY.breakEvenRef}`, result.monthsToBreakEven, styles.months],
+        ['NPV', `SUM(${cashFlow}!${cellRef(CASH_FLOW.periodColumns.presentValue, CASH_FLOW.firstPeriodRow)}:${cellRef(CASH_FLOW.periodColumns.presentValue, lastPeriodRow)})`, result.npv, styles.money],
+        // IRR's default 10% guess does not converge for deeply negative returns
+        ['IRR', 'IFERROR(IRR(CashFlows),IFERROR(IRR(CashFlows,-0.9),"N/A"))', result.irr === null ? 'N/A' : result.irr / 100, styles.percent],
+        ['Discounted payback (months)', `IF(COUNT(${paybackRange})=0,0,MIN(${paybackRange}))`, result.discountedPaybackMonths, styles.months],
+        ['Average annual subscription', `IF(Term>0,${yearSum(c.subscription)}/Term,0)`, result.powerShopsAnnualCost, styles.money],
+        ['Total discounts', `${yearSum(c.seatDiscount)}+${yearSum(c.negotiatedDiscount)}`, result.costBreakdown.discountTotal, styles.money],
+    ];
+    metrics.forEach(([label, expression, value, style], i) => {
+        row(5 + i, [text(label), formula(expression, style), typeof value === 'number' ? num(value, style) : text(value)]);
+    });
+
+    const noteRow = 5 + metrics.length + 1;
+    row(noteRow, [text('"Workbook" recalculates from the Inputs, Segments and Pricing sheets. "Calculator at export" holds the figures the calculator showed when this file was downloaded.', styles.note)]);
+    row(noteRow + 1, [text('Break-even and payback months of 0 mean the investment is not recovered within the term.', styles.note)]);
+
+    return sheet;
+};
+
+export const buildExcelReport = (data: ExcelReportData): Uint8Array => {
+    const styles = createStyles(data.inputs.currency);
+    const names: XlsxDefinedName[] = [];
+    // Defined names are collected while the sheets are laid out.
+    const inputs = buildInputsSheet(data, styles, names);
+    const pricing = buildPricingSheet(data, styles, names);
+    const pools = segmentsOf(data.inputs);
+    const segments = buildSegmentsSheet(pools, styles, names);
+    const cashFlow = buildCashFlowSheet(pools.length, styles, names);
+    const monthly = buildMonthlySheet(pools, styles);
+    const summary = buildSummarySheet(data, styles);
+
+    return writeXlsx({
+        sheets: [summary, inputs, segments, cashFlow, monthly, pricing],
+        definedNames: names,
+        title: 'PowerShops ROI Analysis',
+        creator: 'PowerShops ROI Calculator',
+    }, data.reportDate);
+};
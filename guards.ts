@@ -0,0 +1,9 @@
+// --- UNTRUSTED DATA ---
+// Config files, network responses and host-page messages are typed `unknown` and
+// narrowed field by field before use.
+
+// The object's fields, or none when `value` is not a plain object.
+export const asRecord = (value: unknown): Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
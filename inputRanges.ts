@@ -0,0 +1,88 @@
+import rangesConfig from './inputRanges.json';
+import { asRecord, isFiniteNumber } from './guards';
+import { CURRENCY_CODES, CurrencyCode, DEFAULT_PRICING_SCHEDULE } from './pricing';
+import { MAX_TERM_YEARS } from './roiEngine';
+
+// --- INPUT RANGES ---
+// Slider ranges cover typical prospects and live in inputRanges.json, so each
+// deployment can fit them to its market. Typed values may go past a slider's
+// range, but never past the hard limits, which match what shared links and the
+// insights function accept.
+
+export interface SliderRange {
+    min: number;
+    max: number;
+    step: number;
+}
+
+export interface InputLimit {
+    min: number;
+    max: number;
+}
+
+export const INPUT_LIMITS = {
+    employees: { min: 1, max: 1000000 },
+    salary: { min: 0, max: 10000000 },
+    trainingHours: { min: 0, max: 2000 },
+    turnover: { min: 0, max: 100 },
+    replaceCost: { min: 0, max: 10000000 },
+    term: { min: 1, max: MAX_TERM_YEARS },
+    discountRate: { min: 0, max: 100 },
+    costGrowth: { min: 0, max: 100 },
+    customDiscount: { min: 0, max: DEFAULT_PRICING_SCHEDULE.maxCustomDiscountPercent }, // The approved ceiling
+    // Business drivers, as shown on the sliders (percentages and hours)
+    productivityBoost: { min: 0, max: 100 },
+    turnoverReduction: { min: 0, max: 100 },
+    trainingEfficiency: { min: 0, max: 100 },
+    maxTrainingHoursSaved: { min: 0, max: 1000 },
+    workingHoursPerYear: { min: 1, max: 8760 },
+    adoptionPercent: { min: 0, max: 100 },
+    monthsToFullAdoption: { min: 1, max: MAX_TERM_YEARS * 12 },
+    sensitivitySpread: { min: 0, max: 100 }, // A factor of 1 - spread must stay non-negative
+};
+
+export interface MoneyRanges {
+    salary: SliderRange;
+    replaceCost: SliderRange;
+}
+
+export interface InputRanges {
+    employees: SliderRange;
+    trainingHours: SliderRange;
+    turnover: SliderRange;
+    discountRate: SliderRange;
+    costGrowth: SliderRange;
+    money: Record<CurrencyCode, MoneyRanges>; // Set per currency rather than converted, so sliders stay on round numbers
+}
+
+// Validates an untrusted ranges config, throwing with the offending field. Every
+// range must sit within its hard limit.
+export const parseInputRanges = (raw: unknown): InputRanges => {
+    const config = asRecord(raw);
+    const money = asRecord(config.money);
+    const range = (value: unknown, field: string, limit: InputLimit): SliderRange => {
+        const { min, max, step } = asRecord(value);
+        if (!isFiniteNumber(min) || !isFiniteNumber(max) || !isFiniteNumber(step)
+            || min < limit.min || max > limit.max || min >= max || step <= 0) {
+            throw new Error(`Invalid input ranges config: "${field}"`);
+        }
+        return { min, max, step };
+    };
+
+    return {
+        employees: range(config.employees, 'employees', INPUT_LIMITS.employees),
+        trainingHours: range(config.trainingHours, 'trainingHours', INPUT_LIMITS.trainingHours),
+        turnover: range(config.turnover, 'turnover', INPUT_LIMITS.turnover),
+        discountRate: range(config.discountRate, 'discountRate', INPUT_LIMITS.discountRate),
+        costGrowth: range(config.costGrowth, 'costGrowth', INPUT_LIMITS.costGrowth),
+        money: Object.fromEntries(CURRENCY_CODES.map(code => {
+            const ranges = asRecord(money[code]);
+            return [code, {
+                salary: range(ranges.salary, `money.${code}.salary`, INPUT_LIMITS.salary),
+                replaceCost: range(ranges.replaceCost, `money.${code}.replaceCost`, INPUT_LIMITS.replaceCost),
+            }];
+        })) as Record<CurrencyCode, MoneyRanges>,
+    };
+};
+
+export const INPUT_RANGES: InputRanges = parseInputRanges(rangesConfig);
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { parseInsights, parsePartialInsights } from './insights';
+
+describe('parseInsights', () => {
+    it('keeps well-formed sections and drops unknown key figures', () => {
+        expect(parseInsights({ sections: [{ heading: 'Value', body: 'Pays back fast.', keyFigures: ['npv', 'made-up', 3] }] })).toEqual({
+            sections: [{ heading: 'Value', body: 'Pays back fast.', keyFigures: ['npv'] }],
+        });
+    });
+
+    it('rejects payloads without sections or with malformed ones', () => {
+        expect(() => parseInsights(null)).toThrow('no sections');
+        expect(() => parseInsights({ sections: 'Value' })).toThrow('no sections');
+        expect(() => parseInsights({ sections: [{ heading: 'Value', body: 42 }] })).toThrow('malformed section');
+    });
+});
+
+describe('parsePartialInsights', () => {
+    it('reads the sections streamed so far', () => {
+        expect(parsePartialInsights('{"sections":[{"heading":"Value","body":"Pays ba')).toEqual({
+            sections: [{ heading: 'Value', body: 'Pays ba', keyFigures: [] }],
+        });
+    });
+
+    it('skips entries that are not sections yet', () => {
+        expect(parsePartialInsights('{"sections":[null,{"heading":"Value"')).toEqual({
+            sections: [{ heading: 'Value', body: '', keyFigures: [] }],
+        });
+    });
+});
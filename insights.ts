@@ -0,0 +1,283 @@
+import { RoiInputs, RoiResult } from './roiEngine';
+import { DriverPresetId, findPreset } from './driverPresets';
+import { Formatters } from './locale';
+import { getSessionId } from './session';
+import { asRecord } from './guards';
+
+// --- AI INSIGHTS ---
+// The insights function returns typed sections instead of Markdown. Each section
+// names the calculator metrics it discusses; their values are formatted here from
+// the live result, never taken from the model. Keep KEY_FIGURE_IDS in sync with
+// netlify/lib/insightsSchema.js.
+
+export const KEY_FIGURE_IDS = [
+    'totalRoi',
+    'netBenefit',
+    'totalBenefit',
+    'totalInvestment',
+    'monthsToBreakEven',
+    'npv',
+    'irr',
+    'discountedPaybackMonths',
+    'productivityGains',
+    'turnoverReductionSavings',
+    'trainingTimeSavings',
+] as const;
+
+export type KeyFigureId = typeof KEY_FIGURE_IDS[number];
+
+export interface InsightSection {
+    heading: string;
+    body: string;
+    keyFigures: KeyFigureId[];
+}
+
+// Which provider wrote the insights: a model, or the offline rules narrator.
+export interface InsightsSource {
+    provider: string;
+    model: string;
+    promptVersion: string;
+}
+
+export interface AiInsights {
+    sections: InsightSection[];
+    source?: InsightsSource;
+}
+
+export interface KeyFigure {
+    id: KeyFigureId;
+    label: string;
+    value: string;
+}
+
+const isKeyFigureId = (value: unknown): value is KeyFigureId =>
+    typeof value === 'string' && (KEY_FIGURE_IDS as readonly string[]).includes(value);
+
+const parseKeyFigures = (value: unknown): KeyFigureId[] => (Array.isArray(value) ? value.filter(isKeyFigureId) : []);
+
+// The server validates too; this guards the UI against an unexpected payload.
+export const parseInsights = (value: unknown): AiInsights => {
+    const { sections } = asRecord(value);
+    if (!Array.isArray(sections) || sections.length === 0) {
+        throw new Error('The insights response had no sections.');
+    }
+    return {
+        sections: sections.map((section: unknown) => {
+            const { heading, body, keyFigures } = asRecord(section);
+            if (typeof heading !== 'string' || typeof body !== 'string') {
+                throw new Error('The insights response had a malformed section.');
+            }
+            return { heading, body, keyFigures: parseKeyFigures(keyFigures) };
+        }),
+    };
+};
+
+const parseSource = (value: unknown): InsightsSource | undefined => {
+    const { provider, model, promptVersion } = asRecord(value);
+    return typeof provider === 'string' && typeof model === 'string' && typeof promptVersion === 'string'
+        ? { provider, model, promptVersion }
+        : undefined;
+};
+
+// Reads the `{ insights, source }` body shared by both insights endpoints.
+const parseInsightsResponse = (data: unknown): AiInsights => {
+    const { insights, source } = asRecord(data);
+    return { ...parseInsights(insights), source: parseSource(source) };
+};
+
+export const describeSource = (source: InsightsSource): string =>
+    source.provider === 'rules' ? 'Generated offline from your figures' : `Generated by ${source.model}`;
+
+export const resolveKeyFigure = (id: KeyFigureId, result: RoiResult, formatters: Formatters): KeyFigure => {
+    const { formatCurrency, formatPercent, formatOptionalPercent, formatMonths } = formatters;
+    switch (id) {
+        case 'totalRoi': return { id, label: 'Total ROI', value: formatPercent(result.totalRoi) };
+        case 'netBenefit': return { id, label: 'Net Benefit', value: formatCurrency(result.netBenefit) };
+        case 'totalBenefit': return { id, label: 'Total Benefit', value: formatCurrency(result.totalBenefit) };
+        case 'totalInvestment': return { id, label: 'Total Investment', value: formatCurrency(result.totalInvestment) };
+        case 'monthsToBreakEven': return { id, label: 'Break-Even', value: formatMonths(result.monthsToBreakEven) };
+        case 'npv': return { id, label: 'NPV', value: formatCurrency(result.npv) };
+        case 'irr': return { id, label: 'IRR', value: formatOptionalPercent(result.irr) };
+        case 'discountedPaybackMonths': return { id, label: 'Discounted Payback', value: formatMonths(result.discountedPaybackMonths) };
+        case 'productivityGains': return { id, label: 'Productivity Gains', value: formatCurrency(result.productivityGains) };
+        case 'turnoverReductionSavings': return { id, label: 'Turnover Savings', value: formatCurrency(result.turnoverReductionSavings) };
+        case 'trainingTimeSavings': return { id, label: 'Training Savings', value: formatCurrency(result.trainingTimeSavings) };
+    }
+};
+
+// --- STREAMING ---
+
+// Best-effort parse of a JSON document that is still arriving, so sections can be
+// shown while the model writes them. The unfinished tail is closed off (open string,
+// arrays and objects); if that is not valid yet, the text is cut back to the last comma.
+const closePartialJson = (text: string): string => {
+    const closers: string[] = [];
+    let inString = false;
+    let escaped = false;
+    for (const char of text) {
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+        } else if (char === '"') inString = true;
+        else if (char === '{') closers.push('}');
+        else if (char === '[') closers.push(']');
+        else if (char === '}' || char === ']') closers.pop();
+    }
+    const body = inString ? `${escaped ? text.slice(0, -1) : text}"` : text;
+    return body + closers.reverse().join('');
+};
+
+export const parsePartialInsights = (text: string): AiInsights | null => {
+    for (let end = text.length; end > 0; end = text.lastIndexOf(',', end - 1)) {
+        try {
+            const { sections } = asRecord(JSON.parse(closePartialJson(text.slice(0, end))));
+            if (!Array.isArray(sections)) return null;
+            return {
+                sections: sections.map(asRecord).flatMap(({ heading, body, keyFigures }) => (typeof heading === 'string'
+                    ? [{ heading, body: typeof body === 'string' ? body : '', keyFigures: parseKeyFigures(keyFigures) }]
+                    : [])),
+            };
+        } catch {
+            // Not parseable at this cut; try the previous comma
+        }
+    }
+    return null;
+};
+
+// --- REQUESTS ---
+
+// The functions build the prompt themselves from versioned server-side templates;
+// the browser sends only typed figures, re-validated by netlify/lib/insightsRequest.js.
+export interface InsightsRequest {
+    locale: string;
+    preset: DriverPresetId | 'custom';
+    inputs: RoiInputs;
+    results: Pick<RoiResult, KeyFigureId> & { onboardingFee: number; discountTotal: number };
+}
+
+export const buildInsightsRequest = (locale: string, inputs: RoiInputs, result: RoiResult): InsightsRequest => ({
+    locale,
+    preset: findPreset(inputs.drivers)?.id ?? 'custom',
+    inputs,
+    results: {
+        totalRoi: result.totalRoi,
+        netBenefit: result.netBenefit,
+        totalBenefit: result.totalBenefit,
+        totalInvestment: result.totalInvestment,
+        onboardingFee: result.costBreakdown.onboardingFee,
+        discountTotal: result.costBreakdown.discountTotal,
+        monthsToBreakEven: result.monthsToBreakEven,
+        npv: result.npv,
+        irr: result.irr,
+        discountedPaybackMonths: result.discountedPaybackMonths,
+        productivityGains: result.productivityGains,
+        turnoverReductionSavings: result.turnoverReductionSavings,
+        trainingTimeSavings: result.trainingTimeSavings,
+    },
+});
+
+const INSIGHTS_URL = '/.netlify/functions/get-ai-insights';
+const INSIGHTS_STREAM_URL = '/.netlify/functions/get-ai-insights-stream';
+
+// Thrown when the functions answer 429; `retryAfterSeconds` comes from Retry-After.
+export class RateLimitError extends Error {
+    retryAfterSeconds: number;
+
+    constructor(message: string, retryAfterSeconds: number) {
+        super(message);
+        this.name = 'RateLimitError';
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+const postInsightsRequest = (url: string, request: InsightsRequest, signal?: AbortSignal) =>
+    fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Session-Id': getSessionId() },
+        body: JSON.stringify(request),
+        signal,
+    });
+
+const readError = async (response: Response): Promise<Error> => {
+    const data = asRecord(await response.json().catch(() => null));
+    const message = typeof data.error === 'string' && data.error ? data.error : null;
+    if (response.status === 429) {
+        const retryAfter = Number(response.headers.get('Retry-After') ?? data.retryAfterSeconds);
+        return new RateLimitError(message ?? 'Too many requests.', Number.isFinite(retryAfter) ? retryAfter : 60);
+    }
+    return new Error(message ?? `Server error: ${response.status}`);
+};
+
+export const fetchInsights = async (request: InsightsRequest, signal?: AbortSignal): Promise<AiInsights> => {
+    const response = await postInsightsRequest(INSIGHTS_URL, request, signal);
+    if (!response.ok) throw await readError(response);
+    return parseInsightsResponse(await response.json());
+};
+
+interface ServerEvent {
+    event: string;
+    data: unknown;
+}
+
+const parseServerEvent = (raw: string): ServerEvent => {
+    let event = 'message';
+    const data: string[] = [];
+    raw.split('\n').forEach(line => {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+    });
+    return { event, data: data.length > 0 ? JSON.parse(data.join('\n')) : null };
+};
+
+export interface StreamInsightsOptions {
+    signal?: AbortSignal;
+    onPartial: (insights: AiInsights | null) => void;
+}
+
+// Streams insights over server-sent events, reporting partial sections as they
+// arrive. Falls back to the buffered endpoint when streaming is not deployed or not
+// supported. Rejects with an AbortError if `signal` is aborted.
+export const streamInsights = async (request: InsightsRequest, { signal, onPartial }: StreamInsightsOptions): Promise<AiInsights> => {
+    const response = await postInsightsRequest(INSIGHTS_STREAM_URL, request, signal);
+    const isEventStream = (response.headers.get('Content-Type') ?? '').includes('text/event-stream');
+
+    if (response.status === 404 || (response.ok && (!isEventStream || !response.body))) {
+        return fetchInsights(request, signal);
+    }
+    if (!response.ok) throw await readError(response);
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+            const { event, data } = parseServerEvent(buffer.slice(0, boundary));
+            buffer = buffer.slice(boundary + 2);
+
+            if (event === 'delta') {
+                const { text: chunk } = asRecord(data);
+                if (typeof chunk !== 'string') continue;
+                text += chunk;
+                onPartial(parsePartialInsights(text));
+            } else if (event === 'retry') {
+                text = '';
+                onPartial(null);
+            } else if (event === 'done') {
+                return parseInsightsResponse(data);
+            } else if (event === 'error') {
+                const { error } = asRecord(data);
+                throw new Error(typeof error === 'string' ? error : 'The insights could not be generated.');
+            }
+        }
+    }
+
+    throw new Error('The insights stream ended before the analysis was complete.');
+};
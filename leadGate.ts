@@ -0,0 +1,63 @@
+// --- LEAD GATING ---
+// How strictly the calculator sits behind the lead form, set per build with the
+// LEAD_GATE environment variable:
+//   hard - the form must be submitted before the calculator is shown (default)
+//   soft - the calculator is open; the form is needed to download the report or get AI insights
+//   none - no form at all, for internal and partner builds
+// The form asks for consent to the privacy notice, so it is left out, as with
+// `none`, until privacy.json links the notice.
+
+import { getSessionId } from './session';
+import { PRIVACY_CONFIG } from './privacy';
+
+export const LEAD_GATE_MODES = ['hard', 'soft', 'none'] as const;
+export type LeadGateMode = typeof LEAD_GATE_MODES[number];
+
+// Actions that soft gating holds back until the lead form is submitted.
+export type GatedAction = 'report' | 'workbook' | 'insights';
+
+export const parseLeadGateMode = (value: string | undefined): LeadGateMode => {
+    if (!value) return 'hard';
+    if ((LEAD_GATE_MODES as readonly string[]).includes(value)) return value as LeadGateMode;
+    console.warn(`Unknown LEAD_GATE "${value}"; using the hard gate.`);
+    return 'hard';
+};
+
+const readLeadGateMode = (): LeadGateMode => {
+    const mode = parseLeadGateMode(process.env.LEAD_GATE);
+    if (mode === 'none' || PRIVACY_CONFIG.policyUrl) return mode;
+    console.warn('privacy.json has no policyUrl; the lead form is hidden until the privacy notice is linked.');
+    return 'none';
+};
+
+export const LEAD_GATE_MODE = readLeadGateMode();
+
+// --- INVITE LINKS ---
+// A rep's signed link (?invite=...) pre-fills the contact fields and skips the form.
+// The signature is checked by the verify-invite function, which holds the secret.
+
+const INVITE_PARAM = 'invite';
+const VERIFY_INVITE_URL = '/.netlify/functions/verify-invite';
+
+export const readInviteToken = (): string | null => new URLSearchParams(window.location.search).get(INVITE_PARAM);
+
+// Removes the token from the address bar so it isn't shared along with the page.
+export const clearInviteToken = () => {
+    const url = new URL(window.location.href);
+    url.searchParams.delete(INVITE_PARAM);
+    window.history.replaceState(null, '', url.toString());
+};
+
+// Resolves to the lead form fields, or throws with the server's reason.
+export const verifyInvite = async (token: string): Promise<Record<string, string>> => {
+    const response = await fetch(VERIFY_INVITE_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Session-Id': getSessionId() },
+        body: JSON.stringify({ token }),
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok || !data?.contact) {
+        throw new Error(data?.error ?? `Server returned an error: ${response.status} ${response.statusText}`);
+    }
+    return data.contact;
+};
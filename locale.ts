@@ -0,0 +1,89 @@
+import { CurrencyCode, convertAmount } from './pricing';
+import { RoiInputs, summarizeSegments } from './roiEngine';
+import { INPUT_LIMITS, INPUT_RANGES, InputLimit, SliderRange } from './inputRanges';
+
+// --- LOCALE & CURRENCY ---
+// A locale option drives number/date formatting and the reporting currency. The
+// currency in turn drives the money slider ranges (see inputRanges.ts) and price
+// conversion.
+
+export interface LocaleOption {
+    id: string; // BCP 47 locale tag
+    label: string;
+    currency: CurrencyCode;
+}
+
+export const LOCALE_OPTIONS: LocaleOption[] = [
+    { id: 'en-US', label: 'United States (USD)', currency: 'USD' },
+    { id: 'en-GB', label: 'United Kingdom (GBP)', currency: 'GBP' },
+    { id: 'en-IE', label: 'Eurozone – English (EUR)', currency: 'EUR' },
+    { id: 'de-DE', label: 'Deutschland (EUR)', currency: 'EUR' },
+    { id: 'fr-FR', label: 'France (EUR)', currency: 'EUR' },
+    { id: 'en-CA', label: 'Canada (CAD)', currency: 'CAD' },
+    { id: 'en-AU', label: 'Australia (AUD)', currency: 'AUD' },
+];
+
+export const DEFAULT_LOCALE = LOCALE_OPTIONS[0];
+
+export const findLocale = (id: string): LocaleOption =>
+    LOCALE_OPTIONS.find(option => option.id === id) ?? DEFAULT_LOCALE;
+
+// Money amounts are rounded to the new currency's slider step but not clamped to
+// its range, so typed values beyond the slider survive a currency change.
+const toStep = (value: number, range: SliderRange, limit: InputLimit): number =>
+    Math.min(limit.max, Math.max(limit.min, Math.round(value / range.step) * range.step));
+
+// Re-expresses the money inputs in another currency.
+export const convertInputs = (inputs: RoiInputs, currency: CurrencyCode): RoiInputs => {
+    if (inputs.currency === currency) return inputs;
+    const ranges = INPUT_RANGES.money[currency];
+    const salary = (value: number) => toStep(convertAmount(value, inputs.currency, currency), ranges.salary, INPUT_LIMITS.salary);
+    const replaceCost = (value: number) => toStep(convertAmount(value, inputs.currency, currency), ranges.replaceCost, INPUT_LIMITS.replaceCost);
+    if (inputs.segments.length > 0) {
+        const segments = inputs.segments.map(segment => ({
+            ...segment,
+            salary: salary(segment.salary),
+            replaceCost: replaceCost(segment.replaceCost),
+        }));
+        return { ...inputs, currency, segments, ...summarizeSegments(segments) };
+    }
+    return { ...inputs, currency, salary: salary(inputs.salary), replaceCost: replaceCost(inputs.replaceCost) };
+};
+
+export interface Formatters {
+    formatCurrency: (value: number) => string;
+    formatNumber: (value: number) => string;
+    formatPercent: (value: number) => string;
+    formatOptionalPercent: (value: number | null) => string;
+    formatCurrencyK: (value: number) => string;
+    formatMonths: (value: number) => string;
+    formatDate: (value: Date) => string;
+}
+
+export const createFormatters = ({ id: locale, currency }: LocaleOption): Formatters => {
+    const currencyFormat = new Intl.NumberFormat(locale, { style: 'currency', currency, minimumFractionDigits: 0, maximumFractionDigits: 0 });
+    const compactFormat = (fractionDigits: number) =>
+        new Intl.NumberFormat(locale, { style: 'currency', currency, notation: 'compact', minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits });
+    const millionsFormat = compactFormat(1);
+    const thousandsFormat = compactFormat(0);
+    const numberFormat = new Intl.NumberFormat(locale);
+    const percentFormat = new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 0 });
+    const monthsFormat = new Intl.NumberFormat(locale, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+    const dateFormat = new Intl.DateTimeFormat(locale, { year: 'numeric', month: 'long', day: 'numeric' });
+
+    const formatPercent = (value: number) => percentFormat.format(Math.round(value) / 100);
+
+    return {
+        formatCurrency: (value: number) => currencyFormat.format(value),
+        formatNumber: (value: number) => numberFormat.format(value),
+        formatPercent,
+        formatOptionalPercent: (value: number | null) => value === null ? 'N/A' : formatPercent(value),
+        formatCurrencyK: (value: number) => {
+            if (Math.abs(value) >= 1000000) return millionsFormat.format(value);
+            if (Math.abs(value) >= 1000) return thousandsFormat.format(value);
+            return currencyFormat.format(value);
+        },
+        formatMonths: (value: number) => value > 0 ? `${monthsFormat.format(value)} mo` : 'N/A',
+        formatDate: (value: Date) => dateFormat.format(value),
+    };
+};
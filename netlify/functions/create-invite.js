@@ -0,0 +1,52 @@
+// File: netlify/functions/create-invite.js
+// Staff-only: creates a signed invite link that opens the calculator pre-filled with a
+// contact and skips the lead form. Call with `Authorization: Bearer <LEAD_ADMIN_TOKEN>`
+// and a JSON body of the form fields (first-name, last-name, business-email, company,
+// telephone), plus optional `days` of validity.
+const { hasAdminToken } = require("../lib/adminAuth");
+const { validateContact } = require("../lib/leads");
+const { DEFAULT_INVITE_DAYS, MAX_INVITE_DAYS, createInviteToken } = require("../lib/invites");
+
+const json = (statusCode, body) => ({
+  statusCode,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body),
+});
+
+exports.handler = async function(event) {
+  if (event.httpMethod !== "POST") {
+    return { statusCode: 405, body: "Method Not Allowed" };
+  }
+
+  const getHeader = (name) => event.headers && event.headers[name];
+  if (!hasAdminToken(getHeader, process.env)) {
+    return json(403, { error: "Forbidden." });
+  }
+
+  const { INVITE_SIGNING_SECRET } = process.env;
+  if (!INVITE_SIGNING_SECRET) {
+    console.error("Function Configuration Error: INVITE_SIGNING_SECRET is not set.");
+    return json(500, { error: "Invites are not configured." });
+  }
+
+  let body;
+  try {
+    body = JSON.parse(event.body || "");
+  } catch {
+    return json(400, { error: "Request body must be JSON." });
+  }
+
+  const validation = validateContact(body);
+  if (validation.errors) {
+    return json(400, { error: "Invalid contact.", fields: validation.errors });
+  }
+  const days = body.days === undefined ? DEFAULT_INVITE_DAYS : Number(body.days);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_INVITE_DAYS) {
+    return json(400, { error: `days must be a whole number from 1 to ${MAX_INVITE_DAYS}.` });
+  }
+
+  const { token, expiresAt } = createInviteToken(validation.contact, INVITE_SIGNING_SECRET, { days });
+  // Netlify sets URL to the site's primary address.
+  const origin = process.env.URL || `https://${getHeader("host")}`;
+  return json(200, { url: `${origin}/?invite=${token}`, expiresAt });
+};
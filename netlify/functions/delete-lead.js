@@ -0,0 +1,58 @@
+// File: netlify/functions/delete-lead.js
+// Delete-my-data endpoint. Removes a lead, by email, from every configured sink and
+// from the function store. Staff only (`Authorization: Bearer <LEAD_ADMIN_TOKEN>`):
+// anyone can submit the lead form with someone else's email, so a browser session is
+// no proof of owning the address. Visitors ask for erasure by email instead, which
+// staff answer after checking the sender.
+const { getStore } = require("../lib/store");
+const { hasAdminToken } = require("../lib/adminAuth");
+const { normalizeEmail, isValidEmail, forgetLead } = require("../lib/leads");
+const { redactRecord } = require("../lib/redact");
+const { loadSinks } = require("../lib/leadSinks");
+const { deliverOrQueue, purgeQueuedLead } = require("../lib/leadQueue");
+
+const json = (statusCode, body) => ({
+  statusCode,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body),
+});
+
+exports.handler = async function(event) {
+  if (event.httpMethod !== "POST") {
+    return { statusCode: 405, body: "Method Not Allowed" };
+  }
+
+  const getHeader = (name) => event.headers && event.headers[name];
+  if (!hasAdminToken(getHeader, process.env)) {
+    return json(403, { error: "Forbidden." });
+  }
+
+  let body;
+  try {
+    body = JSON.parse(event.body || "");
+  } catch {
+    return json(400, { error: "Request body must be JSON." });
+  }
+  const email = normalizeEmail(body && body.email);
+  if (!isValidEmail(email)) {
+    return json(400, { error: "Enter a valid email address." });
+  }
+
+  try {
+    const store = getStore(process.env, event);
+    await purgeQueuedLead(store, email);
+    await forgetLead(store, email);
+
+    const record = { type: "lead.deleted", email };
+    console.log("Lead deletion requested:", redactRecord(record));
+    const queued = await deliverOrQueue(store, loadSinks(process.env), record);
+
+    return queued
+      ? json(202, { message: "Deletion accepted; it will be completed shortly.", queued: true })
+      : json(200, { message: "The lead has been deleted." });
+
+  } catch (error) {
+    console.error("Critical Error in delete-lead function:", error);
+    return json(500, { error: "An internal error occurred." });
+  }
+};
@@ -0,0 +1,145 @@
+// File: netlify/functions/get-ai-insights-stream.mjs
+// Streaming variant of get-ai-insights. Uses the Functions 2.0 signature so the
+// response body can be a stream; the browser falls back to get-ai-insights if this
+// endpoint is unavailable.
+//
+// Server-sent events:
+//   delta  { text }              - raw JSON text as the model produces it
+//   retry  { attempt }           - the last attempt was malformed; discard the buffered text
+//   done   { insights, source }  - validated insights, same shape as get-ai-insights
+//   error  { error }
+import insightsSchema from "../lib/insightsSchema.js";
+import insightsRequest from "../lib/insightsRequest.js";
+import promptTemplates from "../lib/promptTemplates.js";
+import providers from "../lib/providers/index.js";
+import storeModule from "../lib/store.js";
+import insightsLimits from "../lib/insightsLimits.js";
+
+const { MAX_ATTEMPTS, parseModelOutput } = insightsSchema;
+const { validateInsightsRequest } = insightsRequest;
+const { buildPrompt } = promptTemplates;
+const { resolveProvider } = providers;
+const { getStore } = storeModule;
+const {
+  RATE_LIMIT_MESSAGE, readLimits, identifyClient, checkRateLimit, insightsCacheKey, getCachedInsights, cacheInsights,
+} = insightsLimits;
+
+const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+};
+
+const jsonResponse = (status, body, headers = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...headers } });
+
+const formatEvent = (event, data) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+export default async (req, context) => {
+  // Only allow POST requests
+  if (req.method !== "POST") {
+    return new Response("Method Not Allowed", { status: 405 });
+  }
+
+  // Gemini, an OpenAI-compatible endpoint, or the offline rules narrator
+  let provider;
+  try {
+    provider = resolveProvider(process.env);
+  } catch (error) {
+    console.error("AI provider configuration error:", error);
+    return jsonResponse(500, { error: "Server configuration error: The AI provider is not configured correctly." });
+  }
+
+  let body;
+  try {
+    body = await req.json();
+  } catch (error) {
+    return jsonResponse(400, { error: "The request body must be valid JSON." });
+  }
+
+  // The client sends calculator inputs and results only; the prompt is built here.
+  const { request, errors } = validateInsightsRequest(body);
+  if (!request) {
+    return jsonResponse(400, { error: "Invalid insights request.", details: errors });
+  }
+
+  let prompt;
+  try {
+    prompt = buildPrompt(request);
+  } catch (error) {
+    console.error("Could not build the insights prompt:", error);
+    return jsonResponse(500, { error: "Server configuration error: The insights prompt could not be built." });
+  }
+  const source = { provider: provider.name, model: provider.model, promptVersion: prompt.version };
+  const cacheKey = insightsCacheKey(request, source);
+
+  let store;
+  try {
+    store = getStore();
+
+    // Identical scenarios are answered from the cache without counting against the limits
+    const cached = await getCachedInsights(store, cacheKey);
+    if (cached) {
+      return new Response(formatEvent("done", { ...cached, cached: true }), { headers: SSE_HEADERS });
+    }
+
+    const client = identifyClient((name) => req.headers.get(name), context && context.ip);
+    const limited = await checkRateLimit(store, client, readLimits(process.env));
+    if (limited) {
+      return jsonResponse(
+        429,
+        { error: RATE_LIMIT_MESSAGE, retryAfterSeconds: limited.retryAfterSeconds },
+        { "Retry-After": String(limited.retryAfterSeconds) }
+      );
+    }
+  } catch (error) {
+    console.error("Critical error in get-ai-insights-stream function:", error);
+    const errorMessage = error instanceof Error ? error.message : "An unknown internal error occurred.";
+    return jsonResponse(500, { error: `An internal server error occurred while generating insights. Details: ${errorMessage}` });
+  }
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event, data) => {
+        if (!req.signal.aborted) {
+          controller.enqueue(encoder.encode(formatEvent(event, data)));
+        }
+      };
+
+      try {
+        for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+          // req.signal stops reading from the provider when the user cancels
+          let text = "";
+          for await (const chunk of provider.stream({ request, prompt, signal: req.signal })) {
+            text += chunk;
+            send("delta", { text: chunk });
+          }
+
+          const { insights, errors } = parseModelOutput(text);
+          if (insights) {
+            await cacheInsights(store, cacheKey, { insights, source });
+            send("done", { insights, source });
+            return;
+          }
+
+          console.warn(`Attempt ${attempt}: streamed ${provider.name} response failed schema validation:`, errors);
+          if (attempt < MAX_ATTEMPTS) send("retry", { attempt });
+        }
+
+        console.error(`No valid streamed insights from ${provider.name} after ${MAX_ATTEMPTS} attempts.`);
+        send("error", { error: "The AI service returned malformed insights. Please try again." });
+      } catch (error) {
+        if (req.signal.aborted) return; // Client cancelled; nothing left to report
+        console.error("Critical error in get-ai-insights-stream function:", error);
+        const errorMessage = error instanceof Error ? error.message : "An unknown internal error occurred.";
+        send("error", { error: `An internal server error occurred while generating insights. Details: ${errorMessage}` });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+};
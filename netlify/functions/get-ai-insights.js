@@ -1,5 +1,12 @@
 // File: netlify/functions/get-ai-insights.js
-const { GoogleGenAI } = require("@google/genai");
+const { MAX_ATTEMPTS, parseModelOutput } = require("../lib/insightsSchema");
+const { validateInsightsRequest } = require("../lib/insightsRequest");
+const { buildPrompt } = require("../lib/promptTemplates");
+const { resolveProvider } = require("../lib/providers");
+const { getStore } = require("../lib/store");
+const {
+  RATE_LIMIT_MESSAGE, readLimits, identifyClient, checkRateLimit, insightsCacheKey, getCachedInsights, cacheInsights,
+} = require("../lib/insightsLimits");
 
 exports.handler = async function(event) {
   // Only allow POST requests
@@ -7,52 +14,77 @@ exports.handler = async function(event) {
     return { statusCode: 405, body: "Method Not Allowed" };
   }
 
-  const { API_KEY } = process.env;
-
-  if (!API_KEY) {
-    console.error("API_KEY is not set in Netlify environment variables.");
+  // Gemini, an OpenAI-compatible endpoint, or the offline rules narrator
+  let provider;
+  try {
+    provider = resolveProvider(process.env);
+  } catch (error) {
+    console.error("AI provider configuration error:", error);
     return {
       statusCode: 500,
-      body: JSON.stringify({ error: "Server configuration error: The API key is not configured." }),
+      body: JSON.stringify({ error: "Server configuration error: The AI provider is not configured correctly." }),
+    };
+  }
+
+  let body;
+  try {
+    body = JSON.parse(event.body);
+  } catch (error) {
+    return { statusCode: 400, body: JSON.stringify({ error: "The request body must be valid JSON." }) };
+  }
+
+  // The client sends calculator inputs and results only; the prompt is built here.
+  const { request, errors } = validateInsightsRequest(body);
+  if (!request) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: "Invalid insights request.", details: errors }),
     };
   }
 
   try {
-    const { userPrompt, systemInstruction } = JSON.parse(event.body);
+    const prompt = buildPrompt(request);
+    const source = { provider: provider.name, model: provider.model, promptVersion: prompt.version };
+    const store = getStore(process.env, event);
+
+    // Identical scenarios are answered from the cache without counting against the limits
+    const cacheKey = insightsCacheKey(request, source);
+    const cached = await getCachedInsights(store, cacheKey);
+    if (cached) {
+      return { statusCode: 200, body: JSON.stringify({ ...cached, cached: true }) };
+    }
 
-    if (!userPrompt || !systemInstruction) {
+    const client = identifyClient((name) => event.headers && event.headers[name]);
+    const limited = await checkRateLimit(store, client, readLimits(process.env));
+    if (limited) {
       return {
-        statusCode: 400,
-        body: JSON.stringify({ error: "Missing required prompt information in the request." }),
+        statusCode: 429,
+        headers: { "Retry-After": String(limited.retryAfterSeconds) },
+        body: JSON.stringify({ error: RATE_LIMIT_MESSAGE, retryAfterSeconds: limited.retryAfterSeconds }),
       };
     }
 
-    // Initialize the official Google GenAI SDK
-    const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-    // Call the Gemini API using the SDK for a more reliable interaction
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: userPrompt,
-        config: {
-            systemInstruction: systemInstruction,
-        },
-    });
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      // Ask the provider for JSON that follows the insights schema
+      const text = await provider.generate({ request, prompt });
 
-    // The SDK provides a simple '.text' property to get the response.
-    const insights = response.text;
+      const { insights, errors } = parseModelOutput(text);
+      if (!insights) {
+        console.warn(`Attempt ${attempt}: ${provider.name} response failed schema validation:`, errors);
+        continue;
+      }
 
-    if (!insights) {
-        console.error("Could not extract insights from Gemini API response:", response);
-        return {
-            statusCode: 500,
-            body: JSON.stringify({ error: "Received an unexpected or empty response from the AI service." })
-        };
+      await cacheInsights(store, cacheKey, { insights, source });
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ insights, source }),
+      };
     }
 
+    console.error(`No valid insights from ${provider.name} after ${MAX_ATTEMPTS} attempts.`);
     return {
-      statusCode: 200,
-      body: JSON.stringify({ insights }),
+      statusCode: 502,
+      body: JSON.stringify({ error: "The AI service returned malformed insights. Please try again." }),
     };
 
   } catch (error) {
@@ -0,0 +1,18 @@
+// File: netlify/functions/retry-leads.mjs
+// Scheduled retry of queued lead deliveries, so failures are re-sent even when no new
+// leads arrive. The queue lives in Netlify Blobs, so this sees what every instance queued.
+import storeModule from "../lib/store.js";
+import sinksModule from "../lib/leadSinks/index.js";
+import queueModule from "../lib/leadQueue.js";
+
+const { getStore } = storeModule;
+const { resolveSinks } = sinksModule;
+const { processLeadQueue } = queueModule;
+
+export default async () => {
+  const summary = await processLeadQueue(getStore(), resolveSinks(process.env));
+  console.log("Lead retry queue:", summary);
+  return new Response(null, { status: 204 });
+};
+
+export const config = { schedule: "*/15 * * * *" };
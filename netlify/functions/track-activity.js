@@ -0,0 +1,70 @@
+// File: netlify/functions/track-activity.js
+// Second tracking event, sent when a visitor generates insights, downloads the report
+// or requests a demo. Carries the scenario they modeled and is linked to the lead from
+// track-user by the browser session id (X-Session-Id header). The lead's email and
+// company are looked up in the shared store, where track-user and verify-invite record
+// them per session for 24 hours; after that, or without a lead, `lead` is null and
+// receivers join on sessionId.
+const { getStore } = require("../lib/store");
+const { identifyClient } = require("../lib/insightsLimits");
+const { validateInsightsRequest } = require("../lib/insightsRequest");
+const { findLeadForSession } = require("../lib/leads");
+const { ACTIVITY_EVENTS, isActivityEvent, buildActivityRecord, isDuplicateActivity, rememberActivity } = require("../lib/leadActivity");
+const { redactRecord } = require("../lib/redact");
+const { loadSinks } = require("../lib/leadSinks");
+const { deliverOrQueue } = require("../lib/leadQueue");
+
+const json = (statusCode, body) => ({
+  statusCode,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body),
+});
+
+exports.handler = async function(event) {
+  if (event.httpMethod !== "POST") {
+    return { statusCode: 405, body: "Method Not Allowed" };
+  }
+
+  let body;
+  try {
+    body = JSON.parse(event.body || "");
+  } catch {
+    return json(400, { error: "Request body must be JSON." });
+  }
+
+  const { sessionId } = identifyClient((name) => event.headers && event.headers[name]);
+  if (!sessionId) {
+    return json(400, { error: "A valid X-Session-Id header is required." });
+  }
+  if (!body || !isActivityEvent(body.event)) {
+    return json(400, { error: `event must be one of: ${Object.keys(ACTIVITY_EVENTS).join(", ")}.` });
+  }
+  const validation = validateInsightsRequest(body.scenario);
+  if (validation.errors) {
+    return json(400, { error: "Invalid scenario.", details: validation.errors });
+  }
+  const { request } = validation;
+
+  try {
+    const store = getStore(process.env, event);
+    if (await isDuplicateActivity(store, sessionId, body.event, request)) {
+      return json(200, { message: "Activity already recorded.", duplicate: true });
+    }
+
+    const sinks = loadSinks(process.env);
+    const lead = await findLeadForSession(store, sessionId);
+    const record = buildActivityRecord({ event: body.event, sessionId, lead, request });
+    console.log("ROI Calculator Activity:", redactRecord(record));
+
+    const queued = await deliverOrQueue(store, sinks, record);
+    await rememberActivity(store, sessionId, body.event, request);
+
+    return queued
+      ? json(202, { message: "Activity received; delivery will be retried.", queued: true })
+      : json(200, { message: "Activity recorded." });
+
+  } catch (error) {
+    console.error("Critical Error in track-activity function:", error);
+    return json(500, { error: "An internal error occurred." });
+  }
+};
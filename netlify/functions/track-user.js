@@ -1,4 +1,16 @@
 // File: netlify/functions/track-user.js
+const { getStore } = require("../lib/store");
+const { identifyClient } = require("../lib/insightsLimits");
+const { validateLead, isDuplicateLead, rememberLead, rememberLeadSession } = require("../lib/leads");
+const { redactRecord } = require("../lib/redact");
+const { loadSinks } = require("../lib/leadSinks");
+const { deliverOrQueue } = require("../lib/leadQueue");
+
+const json = (statusCode, body) => ({
+  statusCode,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body),
+});
 
 exports.handler = async function(event) {
   // This function must be triggered by a POST request from the frontend form.
@@ -6,63 +18,43 @@ exports.handler = async function(event) {
     return { statusCode: 405, body: "Method Not Allowed" };
   }
 
-  const { GOOGLE_APPS_SCRIPT_URL } = process.env;
-
+  let body;
   try {
-    const userData = JSON.parse(event.body);
-    console.log("New ROI Calculator Lead:", userData);
-
-    if (!GOOGLE_APPS_SCRIPT_URL) {
-      console.error("Function Configuration Error: GOOGLE_APPS_SCRIPT_URL is not set in Netlify.");
-      // This is a server-side configuration issue. We still tell the user it was successful
-      // because the lead is captured in these logs.
-      return {
-        statusCode: 200,
-        body: JSON.stringify({ message: "Data logged but could not be sent to Sheets due to missing config." }),
-      };
-    }
-
-    // --- STRATEGY: Send data as URL query parameters in a GET request ---
-    // This avoids the POST-to-GET redirect issue with Google Apps Script.
-    const queryParams = new URLSearchParams({
-        firstName: userData['first-name'] || '',
-        lastName: userData['last-name'] || '',
-        email: userData['business-email'] || '',
-        company: userData['company'] || '',
-        phone: userData['telephone'] || ''
-    });
-
-    const requestUrl = `${GOOGLE_APPS_SCRIPT_URL}?${queryParams.toString()}`;
+    body = JSON.parse(event.body || "");
+  } catch {
+    return json(400, { error: "Request body must be JSON." });
+  }
 
-    // --- DIAGNOSTIC LOGGING ---
-    console.log("Constructed Google Apps Script URL:", requestUrl);
+  const validation = validateLead(body);
+  if (validation.errors) {
+    return json(400, { error: "Please check the highlighted fields.", fields: validation.errors });
+  }
 
-    // Make the GET request to the Google Apps Script.
-    const response = await fetch(requestUrl);
-    const responseBody = await response.text();
+  try {
+    const store = getStore(process.env, event);
+    const sinks = loadSinks(process.env);
+    // The session id links later scenario activity (track-activity) to this lead.
+    const { sessionId } = identifyClient((name) => event.headers && event.headers[name]);
+    const lead = { ...validation.lead, sessionId };
+    if (sessionId) await rememberLeadSession(store, sessionId, lead);
+
+    if (await isDuplicateLead(store, lead)) {
+      return json(200, { message: "Details already received.", duplicate: true });
+    }
+    const record = { type: "lead.created", lead };
+    console.log("New ROI Calculator Lead:", redactRecord(record));
 
-    // --- DIAGNOSTIC LOGGING ---
-    console.log(`Google Apps Script Response Status: ${response.status}`);
-    console.log("Google Apps Script Response Body:", responseBody);
+    const queued = await deliverOrQueue(store, sinks, record);
+    await rememberLead(store, lead);
 
-    if (!response.ok) {
-        // Log the error for debugging but don't block the user.
-        console.error(`Error from Google Apps Script: ${response.status} ${response.statusText}`, responseBody);
-    }
-    
-    // Always return a success response to the frontend client. This ensures a smooth user experience
-    // even if the Google Sheets integration has a problem. The lead is still captured in Netlify logs.
-    return {
-      statusCode: 200,
-      body: JSON.stringify({ message: "Data received and processed." }),
-    };
+    // 202 tells the client the lead is safe but not yet in the CRM.
+    return queued
+      ? json(202, { message: "Data received; delivery will be retried.", queued: true })
+      : json(200, { message: "Data received and processed." });
 
   } catch (error) {
     console.error("Critical Error in track-user function:", error);
     // Return a generic server error.
-    return {
-      statusCode: 500,
-      body: JSON.stringify({ error: "An internal error occurred." }),
-    };
+    return json(500, { error: "An internal error occurred." });
   }
 };
@@ -0,0 +1,57 @@
+// File: netlify/functions/verify-invite.js
+// Checks an invite link's signature and expiry and returns its contact as lead form
+// fields. The browser session is linked to the contact, so scenario activity from the
+// invite reaches the CRM under the right company.
+const { getStore } = require("../lib/store");
+const { identifyClient } = require("../lib/insightsLimits");
+const { rememberLeadSession } = require("../lib/leads");
+const { verifyInviteToken } = require("../lib/invites");
+
+const json = (statusCode, body) => ({
+  statusCode,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body),
+});
+
+exports.handler = async function(event) {
+  if (event.httpMethod !== "POST") {
+    return { statusCode: 405, body: "Method Not Allowed" };
+  }
+
+  const { INVITE_SIGNING_SECRET } = process.env;
+  if (!INVITE_SIGNING_SECRET) {
+    console.error("Function Configuration Error: INVITE_SIGNING_SECRET is not set.");
+    return json(500, { error: "Invites are not configured." });
+  }
+
+  let body;
+  try {
+    body = JSON.parse(event.body || "");
+  } catch {
+    return json(400, { error: "Request body must be JSON." });
+  }
+
+  const verification = verifyInviteToken(body && body.token, INVITE_SIGNING_SECRET);
+  if (verification.error) {
+    return json(400, { error: verification.error });
+  }
+  const { contact } = verification;
+
+  try {
+    const { sessionId } = identifyClient((name) => event.headers && event.headers[name]);
+    if (sessionId) await rememberLeadSession(getStore(process.env, event), sessionId, contact);
+  } catch (error) {
+    // Linking is best-effort; the visitor still gets the pre-filled calculator.
+    console.error("Could not link the invite to the session:", error);
+  }
+
+  return json(200, {
+    contact: {
+      "first-name": contact.firstName,
+      "last-name": contact.lastName,
+      "business-email": contact.email,
+      company: contact.company,
+      telephone: contact.phone,
+    },
+  });
+};
@@ -0,0 +1,16 @@
+// File: netlify/lib/adminAuth.js
+// Staff-only endpoints (erasure requests, invite links) accept
+// `Authorization: Bearer <LEAD_ADMIN_TOKEN>`. Without the variable they are closed.
+const crypto = require("crypto");
+
+// `getHeader` reads a lower-case header name. Hashing first gives both sides the same
+// length, which timingSafeEqual requires.
+function hasAdminToken(getHeader, env) {
+  const header = getHeader("authorization") || "";
+  if (!env.LEAD_ADMIN_TOKEN || !header.startsWith("Bearer ")) return false;
+  const given = crypto.createHash("sha256").update(header.slice("Bearer ".length)).digest();
+  const expected = crypto.createHash("sha256").update(env.LEAD_ADMIN_TOKEN).digest();
+  return crypto.timingSafeEqual(given, expected);
+}
+
+module.exports = { hasAdminToken };
@@ -0,0 +1,22 @@
+// File: netlify/lib/formatting.js
+// Server-side counterparts of the calculator's formatters (createFormatters in
+// locale.ts), so prompts and narrated insights quote figures the way the UI shows them.
+
+function createFormatters(locale, currencyCode) {
+  const numberFormat = new Intl.NumberFormat(locale);
+  const currencyFormat = new Intl.NumberFormat(locale, { style: "currency", currency: currencyCode, maximumFractionDigits: 0 });
+  const percentFormat = new Intl.NumberFormat(locale, { style: "percent", maximumFractionDigits: 0 });
+  const monthsFormat = new Intl.NumberFormat(locale, { maximumFractionDigits: 1 });
+
+  const percent = (value) => percentFormat.format(Math.round(value) / 100);
+
+  return {
+    number: (value) => numberFormat.format(value),
+    currency: (value) => currencyFormat.format(value),
+    percent,
+    optionalPercent: (value) => value === null ? "N/A" : percent(value),
+    months: (value) => value > 0 ? `${monthsFormat.format(value)} mo` : "N/A",
+  };
+}
+
+module.exports = { createFormatters };
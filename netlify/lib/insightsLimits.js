@@ -0,0 +1,76 @@
+// File: netlify/lib/insightsLimits.js
+// Server-side abuse protection for the insights functions: fixed-window rate limits
+// per client IP and per browser session, and a response cache keyed on the normalized
+// request so identical scenarios don't pay for another model call. All of them live in
+// the shared store, so every function instance counts against the same limits. The
+// session limit keeps one visitor from using up a shared office IP's allowance; as the
+// caller picks its session id, the IP limit (on the address Netlify saw, never on
+// X-Forwarded-For) is the one that bounds abuse.
+const crypto = require("crypto");
+
+const HOUR_MS = 60 * 60 * 1000;
+const RATE_WINDOW_MS = HOUR_MS;
+const CACHE_TTL_MS = 24 * HOUR_MS;
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+const hash = (value) => crypto.createHash("sha256").update(value).digest("hex");
+
+const positiveInteger = (value, fallback) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Requests per client per hour; override with INSIGHTS_RATE_LIMIT_PER_IP / _PER_SESSION.
+function readLimits(env) {
+  return {
+    perIp: positiveInteger(env.INSIGHTS_RATE_LIMIT_PER_IP, 30),
+    perSession: positiveInteger(env.INSIGHTS_RATE_LIMIT_PER_SESSION, 10),
+  };
+}
+
+// `getHeader` reads a lower-case header name. `fallbackIp` is the v2 context.ip. The
+// session id comes from the calculator's X-Session-Id header; a missing or malformed
+// one is ignored.
+function identifyClient(getHeader, fallbackIp) {
+  const ip = getHeader("x-nf-client-connection-ip") || fallbackIp || "unknown";
+  const sessionId = getHeader("x-session-id");
+  return { ip, sessionId: SESSION_ID_PATTERN.test(sessionId || "") ? sessionId : null };
+}
+
+// Counts this request against every applicable limit. Returns null when allowed,
+// otherwise { retryAfterSeconds } for the longest wait among the exceeded limits.
+// Identifiers are hashed so the store never holds raw IP addresses.
+async function checkRateLimit(store, { ip, sessionId }, limits, now = Date.now()) {
+  const checks = [{ key: `ratelimit:ip:${hash(ip)}`, limit: limits.perIp }];
+  if (sessionId) checks.push({ key: `ratelimit:session:${hash(sessionId)}`, limit: limits.perSession });
+
+  let retryAfterSeconds = 0;
+  for (const { key, limit } of checks) {
+    const { count, expiresAt } = await store.increment(key, RATE_WINDOW_MS);
+    if (count > limit) {
+      retryAfterSeconds = Math.max(retryAfterSeconds, Math.ceil((expiresAt - now) / 1000));
+    }
+  }
+  return retryAfterSeconds > 0 ? { retryAfterSeconds } : null;
+}
+
+// The validated request has a fixed field order, so equal scenarios serialize equally.
+function insightsCacheKey(request, source) {
+  return `insights:${hash(JSON.stringify({ request, source }))}`;
+}
+
+const getCachedInsights = (store, key) => store.get(key);
+
+const cacheInsights = (store, key, body) => store.set(key, body, CACHE_TTL_MS);
+
+const RATE_LIMIT_MESSAGE = "Too many insight requests. Please wait before trying again.";
+
+module.exports = {
+  RATE_LIMIT_MESSAGE,
+  readLimits,
+  identifyClient,
+  checkRateLimit,
+  insightsCacheKey,
+  getCachedInsights,
+  cacheInsights,
+};
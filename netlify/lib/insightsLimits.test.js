@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import storeModule from "./store.js";
+import limitsModule from "./insightsLimits.js";
+
+const { createMemoryStore } = storeModule;
+const { checkRateLimit, identifyClient } = limitsModule;
+
+const LIMITS = { perIp: 3, perSession: 2 };
+
+describe("checkRateLimit", () => {
+  it("limits each session within the IP allowance", async () => {
+    const store = createMemoryStore({ now: () => 0 });
+    const ann = { ip: "203.0.113.7", sessionId: "session-ann" };
+    const bob = { ip: "203.0.113.7", sessionId: "session-bob" };
+
+    expect(await checkRateLimit(store, ann, LIMITS, 0)).toBeNull();
+    expect(await checkRateLimit(store, ann, LIMITS, 0)).toBeNull();
+    expect(await checkRateLimit(store, ann, LIMITS, 0)).toEqual({ retryAfterSeconds: 3600 });
+    expect(await checkRateLimit(store, bob, LIMITS, 0)).toEqual({ retryAfterSeconds: 3600 });
+  });
+
+  it("keeps limiting the IP when the session id changes", async () => {
+    const store = createMemoryStore({ now: () => 0 });
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await checkRateLimit(store, { ip: "203.0.113.7", sessionId: `session-${i}` }, LIMITS, 0));
+    }
+
+    expect(results).toEqual([null, null, null, { retryAfterSeconds: 3600 }]);
+  });
+});
+
+describe("identifyClient", () => {
+  it("takes the IP Netlify saw, not X-Forwarded-For", () => {
+    const headers = { "x-nf-client-connection-ip": "203.0.113.7", "x-forwarded-for": "198.51.100.1", "x-session-id": "session-ann" };
+
+    expect(identifyClient((name) => headers[name])).toEqual({ ip: "203.0.113.7", sessionId: "session-ann" });
+  });
+});
@@ -0,0 +1,166 @@
+// File: netlify/lib/insightsRequest.js
+// Validates the typed payload the calculator sends to the insights functions. The
+// browser only supplies numbers and enum values; every prompt word is written on the
+// server (see promptTemplates.js), so the endpoint cannot be used as a general LLM proxy.
+const pricing = require("../../pricing.json");
+
+// Keep in sync with LOCALE_OPTIONS in locale.ts and MAX_TERM_YEARS in roiEngine.ts.
+const SUPPORTED_LOCALES = ["en-US", "en-GB", "en-IE", "de-DE", "fr-FR", "en-CA", "en-AU"];
+const MAX_TERM_YEARS = 5;
+const PRESET_IDS = ["conservative", "expected", "aggressive", "custom"];
+const CURRENCY_CODES = Object.keys(pricing.exchangeRates);
+
+// Rounding differences between the browser and these checks stay well under this.
+const MONEY_TOLERANCE = 1;
+
+function createChecker() {
+  const errors = [];
+  const number = (object, key, min, max, { integer = false, path = key } = {}) => {
+    const value = object ? object[key] : undefined;
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      errors.push(`${path} is required and must be a number.`);
+    } else if (value < min || value > max) {
+      errors.push(`${path} must be between ${min} and ${max}.`);
+    } else if (integer && !Number.isInteger(value)) {
+      errors.push(`${path} must be a whole number.`);
+    }
+    return value;
+  };
+  const oneOf = (object, key, allowed, path = key) => {
+    const value = object ? object[key] : undefined;
+    if (!allowed.includes(value)) errors.push(`${path} must be one of: ${allowed.join(", ")}.`);
+    return value;
+  };
+  const object = (value, path) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      errors.push(`${path} is required and must be an object.`);
+      return null;
+    }
+    return value;
+  };
+  return { errors, number, oneOf, object };
+}
+
+function validateAdoption(check, adoption) {
+  if (!check.object(adoption, "inputs.adoption")) return;
+  if (adoption.kind === "sCurve") {
+    check.number(adoption, "monthsToFullAdoption", 1, MAX_TERM_YEARS * 12, { integer: true, path: "inputs.adoption.monthsToFullAdoption" });
+  } else if (adoption.kind === "yearly") {
+    const { yearlyPercent } = adoption;
+    if (!Array.isArray(yearlyPercent) || yearlyPercent.length === 0 || yearlyPercent.length > MAX_TERM_YEARS) {
+      check.errors.push(`inputs.adoption.yearlyPercent must list 1-${MAX_TERM_YEARS} percentages.`);
+    } else {
+      yearlyPercent.forEach((_, index) => check.number(yearlyPercent, index, 0, 100, { path: `inputs.adoption.yearlyPercent[${index}]` }));
+    }
+  } else {
+    check.errors.push("inputs.adoption.kind must be one of: sCurve, yearly.");
+  }
+}
+
+// Returns { request } with only the known fields, or { errors } listing every problem.
+function validateInsightsRequest(body) {
+  const check = createChecker();
+  if (!check.object(body, "body")) return { errors: check.errors };
+
+  const locale = check.oneOf(body, "locale", SUPPORTED_LOCALES);
+  const preset = check.oneOf(body, "preset", PRESET_IDS);
+
+  const inputs = check.object(body.inputs, "inputs");
+  const drivers = check.object(inputs && inputs.drivers, "inputs.drivers");
+  if (inputs) {
+    check.oneOf(inputs, "currency", CURRENCY_CODES, "inputs.currency");
+    check.number(inputs, "employees", 1, 1000000, { integer: true, path: "inputs.employees" });
+    check.number(inputs, "salary", 0, 10000000, { path: "inputs.salary" });
+    check.number(inputs, "trainingHours", 0, 2000, { path: "inputs.trainingHours" });
+    check.number(inputs, "turnover", 0, 100, { path: "inputs.turnover" });
+    check.number(inputs, "replaceCost", 0, 10000000, { path: "inputs.replaceCost" });
+    check.number(inputs, "term", 1, MAX_TERM_YEARS, { integer: true, path: "inputs.term" });
+    check.number(inputs, "discountRate", 0, 100, { path: "inputs.discountRate" });
+    check.number(inputs, "customDiscount", 0, pricing.maxCustomDiscountPercent, { path: "inputs.customDiscount" });
+    validateAdoption(check, inputs.adoption);
+  }
+  if (drivers) {
+    check.number(drivers, "productivityBoost", 0, 1, { path: "inputs.drivers.productivityBoost" });
+    check.number(drivers, "turnoverReduction", 0, 1, { path: "inputs.drivers.turnoverReduction" });
+    check.number(drivers, "trainingEfficiency", 0, 1, { path: "inputs.drivers.trainingEfficiency" });
+    check.number(drivers, "maxTrainingHoursSaved", 0, 1000, { path: "inputs.drivers.maxTrainingHoursSaved" });
+    check.number(drivers, "workingHoursPerYear", 1, 8760, { path: "inputs.drivers.workingHoursPerYear" });
+  }
+
+  const results = check.object(body.results, "results");
+  if (results) {
+    const termMonths = inputs && Number.isInteger(inputs.term) ? inputs.term * 12 : MAX_TERM_YEARS * 12;
+    const money = (key, min = -1e12) => check.number(results, key, min, 1e12, { path: `results.${key}` });
+    money("totalInvestment", 0);
+    money("onboardingFee", 0);
+    money("discountTotal", 0);
+    money("productivityGains", 0);
+    money("turnoverReductionSavings", 0);
+    money("trainingTimeSavings", 0);
+    money("totalBenefit", 0);
+    money("netBenefit");
+    money("npv");
+    check.number(results, "totalRoi", -100, 1000000, { path: "results.totalRoi" });
+    check.number(results, "monthsToBreakEven", 0, termMonths, { path: "results.monthsToBreakEven" });
+    check.number(results, "discountedPaybackMonths", 0, termMonths, { path: "results.discountedPaybackMonths" });
+    if (results.irr !== null) check.number(results, "irr", -100, 1000000, { path: "results.irr" });
+
+    // Cross-check the totals so the narrative can't be fed inconsistent figures
+    if (check.errors.length === 0) {
+      const benefitSum = results.productivityGains + results.turnoverReductionSavings + results.trainingTimeSavings;
+      if (Math.abs(benefitSum - results.totalBenefit) > MONEY_TOLERANCE) {
+        check.errors.push("results.totalBenefit must equal the sum of the benefit lines.");
+      }
+      if (Math.abs(results.totalBenefit - results.totalInvestment - results.netBenefit) > MONEY_TOLERANCE) {
+        check.errors.push("results.netBenefit must equal totalBenefit minus totalInvestment.");
+      }
+    }
+  }
+
+  if (check.errors.length > 0) return { errors: check.errors };
+
+  return {
+    request: {
+      locale,
+      preset,
+      inputs: {
+        currency: inputs.currency,
+        employees: inputs.employees,
+        salary: inputs.salary,
+        trainingHours: inputs.trainingHours,
+        turnover: inputs.turnover,
+        replaceCost: inputs.replaceCost,
+        term: inputs.term,
+        discountRate: inputs.discountRate,
+        customDiscount: inputs.customDiscount,
+        drivers: {
+          productivityBoost: drivers.productivityBoost,
+          turnoverReduction: drivers.turnoverReduction,
+          trainingEfficiency: drivers.trainingEfficiency,
+          maxTrainingHoursSaved: drivers.maxTrainingHoursSaved,
+          workingHoursPerYear: drivers.workingHoursPerYear,
+        },
+        adoption: inputs.adoption.kind === "sCurve"
+          ? { kind: "sCurve", monthsToFullAdoption: inputs.adoption.monthsToFullAdoption }
+          : { kind: "yearly", yearlyPercent: [...inputs.adoption.yearlyPercent] },
+      },
+      results: {
+        totalRoi: results.totalRoi,
+        netBenefit: results.netBenefit,
+        totalBenefit: results.totalBenefit,
+        totalInvestment: results.totalInvestment,
+        onboardingFee: results.onboardingFee,
+        discountTotal: results.discountTotal,
+        monthsToBreakEven: results.monthsToBreakEven,
+        npv: results.npv,
+        irr: results.irr,
+        discountedPaybackMonths: results.discountedPaybackMonths,
+        productivityGains: results.productivityGains,
+        turnoverReductionSavings: results.turnoverReductionSavings,
+        trainingTimeSavings: results.trainingTimeSavings,
+      },
+    },
+  };
+}
+
+module.exports = { SUPPORTED_LOCALES, validateInsightsRequest };
@@ -0,0 +1,116 @@
+// File: netlify/lib/insightsSchema.js
+// Structured-output contract for AI insights. Every provider is asked for JSON
+// matching INSIGHTS_SCHEMA (plain JSON Schema, understood by Gemini and by
+// OpenAI-compatible endpoints), and every response is checked with validateInsights
+// before it reaches the browser. Keep KEY_FIGURE_IDS in sync with insights.ts.
+
+// Structured output is usually well-formed, but a truncated or off-schema reply is
+// retried rather than passed on to the browser.
+const MAX_ATTEMPTS = 3;
+
+// Calculator metrics a section may reference. The client formats the values itself,
+// so a figure shown next to a section always matches the calculation.
+const KEY_FIGURE_IDS = [
+  "totalRoi",
+  "netBenefit",
+  "totalBenefit",
+  "totalInvestment",
+  "monthsToBreakEven",
+  "npv",
+  "irr",
+  "discountedPaybackMonths",
+  "productivityGains",
+  "turnoverReductionSavings",
+  "trainingTimeSavings",
+];
+
+const LIMITS = {
+  maxSections: 6,
+  maxHeadingLength: 80,
+  maxBodyLength: 1200,
+  maxKeyFigures: 4,
+};
+
+const INSIGHTS_SCHEMA = {
+  type: "object",
+  properties: {
+    sections: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          heading: { type: "string", description: "Short section title, plain text." },
+          body: { type: "string", description: "One concise paragraph, plain text without Markdown." },
+          keyFigures: {
+            type: "array",
+            description: "Calculator metrics this section discusses.",
+            items: { type: "string", enum: KEY_FIGURE_IDS },
+          },
+        },
+        required: ["heading", "body", "keyFigures"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["sections"],
+  additionalProperties: false,
+};
+
+const isNonEmptyString = (value, maxLength) =>
+  typeof value === "string" && value.trim().length > 0 && value.length <= maxLength;
+
+// Returns a list of problems; an empty list means the value is safe to return.
+function validateInsights(value) {
+  const errors = [];
+  if (!value || typeof value !== "object" || !Array.isArray(value.sections)) {
+    return ["Expected an object with a 'sections' array."];
+  }
+  if (value.sections.length === 0 || value.sections.length > LIMITS.maxSections) {
+    errors.push(`Expected 1-${LIMITS.maxSections} sections, got ${value.sections.length}.`);
+  }
+  value.sections.forEach((section, index) => {
+    if (!section || typeof section !== "object") {
+      errors.push(`sections[${index}] is not an object.`);
+      return;
+    }
+    if (!isNonEmptyString(section.heading, LIMITS.maxHeadingLength)) {
+      errors.push(`sections[${index}].heading must be 1-${LIMITS.maxHeadingLength} characters.`);
+    }
+    if (!isNonEmptyString(section.body, LIMITS.maxBodyLength)) {
+      errors.push(`sections[${index}].body must be 1-${LIMITS.maxBodyLength} characters.`);
+    }
+    if (!Array.isArray(section.keyFigures) || section.keyFigures.length > LIMITS.maxKeyFigures) {
+      errors.push(`sections[${index}].keyFigures must be an array of at most ${LIMITS.maxKeyFigures} ids.`);
+    } else {
+      section.keyFigures
+        .filter((id) => !KEY_FIGURE_IDS.includes(id))
+        .forEach((id) => errors.push(`sections[${index}].keyFigures has unknown id '${id}'.`));
+    }
+  });
+  return errors;
+}
+
+// Drops unknown properties and duplicate figures from an already validated value.
+function normalizeInsights(value) {
+  return {
+    sections: value.sections.map((section) => ({
+      heading: section.heading.trim(),
+      body: section.body.trim(),
+      keyFigures: [...new Set(section.keyFigures)],
+    })),
+  };
+}
+
+// Parses the model's raw text. Returns { insights } when usable, otherwise { errors }.
+function parseModelOutput(text) {
+  let parsed;
+  try {
+    parsed = JSON.parse(text || "");
+  } catch (parseError) {
+    return { errors: ["Response was not valid JSON."] };
+  }
+  const errors = validateInsights(parsed);
+  return errors.length > 0 ? { errors } : { insights: normalizeInsights(parsed) };
+}
+
+module.exports = { MAX_ATTEMPTS, KEY_FIGURE_IDS, INSIGHTS_SCHEMA, validateInsights, normalizeInsights, parseModelOutput };
@@ -0,0 +1,44 @@
+// File: netlify/lib/invites.js
+// Signed invite links. A rep creates one for a known contact; the calculator opened
+// from it is pre-filled and skips the lead form. The token is the contact and expiry
+// sealed with AES-256-GCM under a key derived from INVITE_SIGNING_SECRET: the GCM tag
+// signs it, so it can't be altered, and the encryption keeps the contact out of
+// readable URLs in browser history and access logs.
+const crypto = require("crypto");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_INVITE_DAYS = 30;
+const MAX_INVITE_DAYS = 90;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+const deriveKey = (secret) => crypto.createHash("sha256").update(`invite:${secret}`).digest();
+
+function createInviteToken(contact, secret, { days = DEFAULT_INVITE_DAYS, now = Date.now() } = {}) {
+  const exp = now + days * DAY_MS;
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv("aes-256-gcm", deriveKey(secret), iv);
+  const sealed = Buffer.concat([cipher.update(JSON.stringify({ contact, exp }), "utf8"), cipher.final()]);
+  const token = Buffer.concat([iv, sealed, cipher.getAuthTag()]).toString("base64url");
+  return { token, expiresAt: new Date(exp).toISOString() };
+}
+
+// Returns { contact } or { error }.
+function verifyInviteToken(token, secret, now = Date.now()) {
+  const bytes = typeof token === "string" ? Buffer.from(token, "base64url") : Buffer.alloc(0);
+  if (bytes.length <= IV_BYTES + TAG_BYTES) return { error: "Malformed invite." };
+
+  let data;
+  try {
+    const decipher = crypto.createDecipheriv("aes-256-gcm", deriveKey(secret), bytes.subarray(0, IV_BYTES));
+    decipher.setAuthTag(bytes.subarray(bytes.length - TAG_BYTES));
+    const plain = Buffer.concat([decipher.update(bytes.subarray(IV_BYTES, bytes.length - TAG_BYTES)), decipher.final()]);
+    data = JSON.parse(plain.toString("utf8"));
+  } catch {
+    return { error: "Invalid invite signature." };
+  }
+  if (typeof data.exp !== "number" || data.exp <= now) return { error: "This invite has expired." };
+  return { contact: data.contact };
+}
+
+module.exports = { DEFAULT_INVITE_DAYS, MAX_INVITE_DAYS, createInviteToken, verifyInviteToken };
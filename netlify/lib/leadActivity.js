@@ -0,0 +1,65 @@
+// File: netlify/lib/leadActivity.js
+// Scenario activity for an existing lead: what the visitor modeled when they generated
+// insights, downloaded the report or workbook or asked for a demo.
+const crypto = require("crypto");
+const { createFormatters } = require("./formatting");
+
+const ACTIVITY_EVENTS = {
+  insights_generated: "generated AI insights",
+  report_downloaded: "downloaded report",
+  workbook_downloaded: "downloaded Excel workbook",
+  demo_requested: "requested a demo",
+};
+
+// The same event for the same scenario is only forwarded once per session.
+const ACTIVITY_DEDUPE_MS = 24 * 60 * 60 * 1000;
+
+const isActivityEvent = (value) => Object.prototype.hasOwnProperty.call(ACTIVITY_EVENTS, value);
+
+// One line for the CRM, e.g. "Acme: 800 employees, 3-year term, 412% ROI, downloaded report".
+function summarizeActivity(event, lead, request) {
+  const format = createFormatters(request.locale, request.inputs.currency);
+  const who = lead ? lead.company : "Unknown lead";
+  return `${who}: ${format.number(request.inputs.employees)} employees, ${request.inputs.term}-year term, `
+    + `${format.percent(request.results.totalRoi)} ROI, ${ACTIVITY_EVENTS[event]}`;
+}
+
+// `request` is a validated insights request; its inputs are the final assumptions.
+function buildActivityRecord({ event, sessionId, lead, request }) {
+  return {
+    type: "lead.activity",
+    activity: {
+      sessionId,
+      event,
+      occurredAt: new Date().toISOString(),
+      lead: lead || null,
+      summary: summarizeActivity(event, lead, request),
+      currency: request.inputs.currency,
+      term: request.inputs.term,
+      totalRoi: request.results.totalRoi,
+      netBenefit: request.results.netBenefit,
+      monthsToBreakEven: request.results.monthsToBreakEven,
+      preset: request.preset,
+      assumptions: request.inputs,
+      results: request.results,
+    },
+  };
+}
+
+const activityKey = (sessionId, event, request) =>
+  `activity:${crypto.createHash("sha256").update(JSON.stringify({ sessionId, event, request })).digest("hex")}`;
+
+async function isDuplicateActivity(store, sessionId, event, request) {
+  return (await store.get(activityKey(sessionId, event, request))) !== undefined;
+}
+
+const rememberActivity = (store, sessionId, event, request) =>
+  store.set(activityKey(sessionId, event, request), true, ACTIVITY_DEDUPE_MS);
+
+module.exports = {
+  ACTIVITY_EVENTS,
+  isActivityEvent,
+  buildActivityRecord,
+  isDuplicateActivity,
+  rememberActivity,
+};
@@ -0,0 +1,137 @@
+// File: netlify/lib/leadQueue.js
+// Retry queue for lead deliveries that failed. Entries live in the shared store under
+// one key and are retried with backoff by the scheduled retry-leads function, never
+// inline, so a slow sink only delays a form submission by its own first attempt.
+// After the last attempt the entry moves to a dead-letter list in the store, so it can
+// still be recovered by hand rather than silently dropped; the log line about it is
+// redacted. Every write goes through store.update, so instances adding, retrying or
+// purging entries at the same time don't overwrite each other's changes.
+const crypto = require("crypto");
+const { redactRecord } = require("./redact");
+
+const QUEUE_KEY = "leads:retry-queue";
+const QUEUE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DEAD_LETTER_KEY = "leads:dead-letter";
+const DEAD_LETTER_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const RETRY_DELAYS_MS = [60, 5 * 60, 30 * 60, 2 * 60 * 60, 12 * 60 * 60].map((seconds) => seconds * 1000);
+const MAX_DELIVERY_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+// Sends the record to each sink and returns the ones that failed, as { name, error }.
+async function deliverRecord(sinks, record) {
+  const results = await Promise.allSettled(sinks.map((sink) => sink.send(record)));
+  return results
+    .map((result, index) => ({ name: sinks[index].name, result }))
+    .filter(({ result }) => result.status === "rejected")
+    .map(({ name, result }) => ({ name, error: String(result.reason && result.reason.message || result.reason) }));
+}
+
+const describeFailures = (failures) =>
+  failures.map(({ name, error }) => (name ? `${name}: ${error}` : error)).join("; ");
+
+const readQueue = async (store) => (await store.get(QUEUE_KEY)) || [];
+
+const updateQueue = (store, fn) => store.update(QUEUE_KEY, (entries) => fn(entries || []), QUEUE_TTL_MS);
+
+const updateDeadLetters = (store, fn) => store.update(DEAD_LETTER_KEY, (entries) => fn(entries || []), DEAD_LETTER_TTL_MS);
+
+// `sinkNames` is null when no sink was configured; such entries go to whatever is
+// configured by the time they are retried.
+async function enqueueRecord(store, record, sinkNames, error, now = Date.now()) {
+  const entry = {
+    id: crypto.randomUUID(),
+    record,
+    sinkNames,
+    attempts: 1,
+    nextAttemptAt: now + RETRY_DELAYS_MS[0],
+    lastError: error,
+  };
+  await updateQueue(store, (entries) => [...entries, entry]);
+}
+
+// First delivery attempt. Returns true when (part of) the record was queued for retry.
+async function deliverOrQueue(store, sinks, record) {
+  if (sinks.length === 0) {
+    console.error(`No lead sinks are configured; ${record.type} is queued for retry.`);
+    await enqueueRecord(store, record, null, "No lead sinks are configured.");
+    return true;
+  }
+  const failures = await deliverRecord(sinks, record);
+  if (failures.length === 0) return false;
+  const lastError = describeFailures(failures);
+  console.error(`Delivery of ${record.type} failed, queued for retry (${lastError}).`);
+  await enqueueRecord(store, record, failures.map(({ name }) => name), lastError);
+  return true;
+}
+
+// Retries every due entry once. Returns counts for logging.
+async function processLeadQueue(store, sinks, now = Date.now()) {
+  const entries = await readQueue(store);
+  const due = entries.filter((entry) => entry.nextAttemptAt <= now);
+  const summary = { delivered: 0, requeued: 0, abandoned: 0, pending: entries.length };
+  if (due.length === 0) return summary;
+
+  // Retried entries by id; null once delivered or abandoned.
+  const outcomes = new Map();
+  const abandoned = [];
+  for (const entry of due) {
+    const names = entry.sinkNames || sinks.map((sink) => sink.name);
+    const targets = sinks.filter((sink) => names.includes(sink.name));
+    const missing = names.filter((name) => !targets.some((sink) => sink.name === name))
+      .map((name) => ({ name, error: "Sink is not configured." }));
+    const failures = targets.length > 0 || missing.length > 0
+      ? [...missing, ...await deliverRecord(targets, entry.record)]
+      : [{ name: null, error: "No lead sinks are configured." }];
+
+    if (failures.length === 0) {
+      outcomes.set(entry.id, null);
+      summary.delivered += 1;
+      continue;
+    }
+
+    const lastError = describeFailures(failures);
+    const attempts = entry.attempts + 1;
+    if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+      console.error(`Delivery abandoned after ${attempts} attempts (${lastError}):`, redactRecord(entry.record));
+      abandoned.push({ ...entry, attempts, lastError, abandonedAt: new Date(now).toISOString() });
+      outcomes.set(entry.id, null);
+      summary.abandoned += 1;
+      continue;
+    }
+    outcomes.set(entry.id, {
+      ...entry,
+      // Only the sinks that failed are retried, so the others don't get the record twice.
+      sinkNames: failures.every(({ name }) => name) ? failures.map(({ name }) => name) : null,
+      attempts,
+      nextAttemptAt: now + RETRY_DELAYS_MS[attempts - 1],
+      lastError,
+    });
+    summary.requeued += 1;
+  }
+
+  // Entries queued meanwhile are kept; entries purged meanwhile stay gone.
+  const remaining = await updateQueue(store, (current) => current
+    .map((entry) => (outcomes.has(entry.id) ? outcomes.get(entry.id) : entry))
+    .filter(Boolean));
+  if (abandoned.length > 0) await updateDeadLetters(store, (deadLetters) => [...deadLetters, ...abandoned]);
+  summary.pending = remaining.length;
+  return summary;
+}
+
+const mentionsEmail = ({ record }, email) =>
+  (record.type === "lead.created" && record.lead.email === email)
+  || (record.type === "lead.activity" && record.activity.lead !== null && record.activity.lead.email === email);
+
+// Erases a lead's pending and dead-lettered deliveries, for delete requests.
+async function purgeQueuedLead(store, email) {
+  await updateQueue(store, (entries) => entries.filter((entry) => !mentionsEmail(entry, email)));
+  await updateDeadLetters(store, (entries) => entries.filter((entry) => !mentionsEmail(entry, email)));
+}
+
+module.exports = {
+  MAX_DELIVERY_ATTEMPTS,
+  deliverRecord,
+  enqueueRecord,
+  deliverOrQueue,
+  processLeadQueue,
+  purgeQueuedLead,
+};
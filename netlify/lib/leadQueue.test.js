@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import storeModule from "./store.js";
+import queueModule from "./leadQueue.js";
+
+const { createMemoryStore } = storeModule;
+const { enqueueRecord, processLeadQueue, purgeQueuedLead } = queueModule;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const leadRecord = (email) => ({ type: "lead.created", lead: { email } });
+
+const queuedEmails = async (store) => ((await store.get("leads:retry-queue")) || []).map((entry) => entry.record.lead.email);
+
+describe("processLeadQueue", () => {
+  it("keeps entries queued by another instance while it delivers", async () => {
+    const store = createMemoryStore();
+    await enqueueRecord(store, leadRecord("ann@acme.com"), ["webhook"], "timeout", 0);
+    const sinks = [{
+      name: "webhook",
+      send: () => enqueueRecord(store, leadRecord("bob@acme.com"), ["webhook"], "timeout"),
+    }];
+
+    const summary = await processLeadQueue(store, sinks, 60 * 1000);
+
+    expect(summary).toMatchObject({ delivered: 1, requeued: 0, pending: 1 });
+    expect(await queuedEmails(store)).toEqual(["bob@acme.com"]);
+  });
+
+  it("does not bring back entries purged while it delivers", async () => {
+    const store = createMemoryStore();
+    await enqueueRecord(store, leadRecord("ann@acme.com"), ["webhook"], "timeout", 0);
+    const sinks = [{
+      name: "webhook",
+      send: async () => {
+        await purgeQueuedLead(store, "ann@acme.com");
+        throw new Error("HTTP 500");
+      },
+    }];
+
+    const summary = await processLeadQueue(store, sinks, 60 * 1000);
+
+    expect(summary).toMatchObject({ requeued: 1, pending: 0 });
+    expect(await queuedEmails(store)).toEqual([]);
+  });
+
+  it("moves an entry to the dead-letter list after the last attempt", async () => {
+    const store = createMemoryStore();
+    const now = Date.now();
+    await enqueueRecord(store, leadRecord("ann@acme.com"), ["webhook"], "timeout", now);
+    const sinks = [{ name: "webhook", send: () => Promise.reject(new Error("HTTP 500")) }];
+
+    let summary;
+    for (let day = 1; day <= 5; day++) summary = await processLeadQueue(store, sinks, now + day * DAY_MS);
+
+    expect(summary).toMatchObject({ abandoned: 1, pending: 0 });
+    expect(await store.get("leads:dead-letter")).toEqual([
+      expect.objectContaining({ attempts: 6, lastError: "webhook: HTTP 500" }),
+    ]);
+
+    await purgeQueuedLead(store, "ann@acme.com");
+    expect(await store.get("leads:dead-letter")).toEqual([]);
+  });
+});
@@ -0,0 +1,25 @@
+// File: netlify/lib/leadSinks/googleSheets.js
+// Google Sheets via an Apps Script web app. The record is POSTed as JSON so no personal
+// data ends up in URLs (and with them in proxy and access logs); the script's doPost
+// reads e.postData.contents and branches on `type`. Apps Script answers with a redirect
+// to the script output, which fetch follows with a body-less GET.
+const REQUEST_TIMEOUT_MS = 10000;
+
+function createGoogleSheetsSink({ url }) {
+  return {
+    name: "sheets",
+    async send(record) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(record),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Google Apps Script returned ${response.status} ${response.statusText}`);
+      }
+    },
+  };
+}
+
+module.exports = { createGoogleSheetsSink };
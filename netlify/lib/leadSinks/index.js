@@ -0,0 +1,64 @@
+// File: netlify/lib/leadSinks/index.js
+// Delivery layer for captured leads. A sink forwards one record to a CRM or store and
+// rejects when the delivery failed, so the record can be queued for retry:
+//
+//   name                 - stable id, recorded on queued deliveries
+//   send(record)         - resolves once the destination accepted the record
+//
+// Records are { type: "lead.created", lead } when the form is submitted and
+// { type: "lead.activity", activity } when the visitor later acts on a scenario;
+// both carry the browser session id that links them. { type: "lead.deleted", email }
+// asks the destination to erase that lead and its activity.
+//
+// Selection (environment variables):
+//   LEAD_SINKS               comma-separated list of sheets | webhook | file; when unset,
+//                            every sink whose settings below are present
+//   GOOGLE_APPS_SCRIPT_URL   Google Sheets via an Apps Script web app
+//   LEAD_WEBHOOK_URL         generic JSON webhook, signed when LEAD_WEBHOOK_SECRET is set
+//   LEAD_FILE_PATH           JSON Lines file for local development
+const { createGoogleSheetsSink } = require("./googleSheets");
+const { createWebhookSink } = require("./webhook");
+const { createJsonlFileSink } = require("./jsonlFile");
+
+const SINK_NAMES = ["sheets", "webhook", "file"];
+
+function createSink(name, env) {
+  switch (name) {
+    case "sheets":
+      if (!env.GOOGLE_APPS_SCRIPT_URL) throw new Error("Lead sink 'sheets' needs GOOGLE_APPS_SCRIPT_URL.");
+      return createGoogleSheetsSink({ url: env.GOOGLE_APPS_SCRIPT_URL });
+    case "webhook":
+      if (!env.LEAD_WEBHOOK_URL) throw new Error("Lead sink 'webhook' needs LEAD_WEBHOOK_URL.");
+      return createWebhookSink({ url: env.LEAD_WEBHOOK_URL, secret: env.LEAD_WEBHOOK_SECRET });
+    case "file":
+      if (!env.LEAD_FILE_PATH) throw new Error("Lead sink 'file' needs LEAD_FILE_PATH.");
+      return createJsonlFileSink({ path: env.LEAD_FILE_PATH });
+    default:
+      throw new Error(`Unknown lead sink '${name}'. Expected one of: ${SINK_NAMES.join(", ")}.`);
+  }
+}
+
+// Returns an empty list when nothing is configured; the caller queues records until it is.
+function resolveSinks(env) {
+  const names = env.LEAD_SINKS
+    ? env.LEAD_SINKS.split(",").map((name) => name.trim()).filter(Boolean)
+    : SINK_NAMES.filter((name) => ({
+      sheets: env.GOOGLE_APPS_SCRIPT_URL,
+      webhook: env.LEAD_WEBHOOK_URL,
+      file: env.LEAD_FILE_PATH,
+    })[name]);
+  return names.map((name) => createSink(name, env));
+}
+
+// For the tracking functions: a misconfigured sink must not lock visitors out of the
+// calculator, so the error is logged and records are queued until it is fixed.
+function loadSinks(env) {
+  try {
+    return resolveSinks(env);
+  } catch (error) {
+    console.error("Function Configuration Error:", error.message);
+    return [];
+  }
+}
+
+module.exports = { SINK_NAMES, resolveSinks, loadSinks };
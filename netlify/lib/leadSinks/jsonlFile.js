@@ -0,0 +1,38 @@
+// File: netlify/lib/leadSinks/jsonlFile.js
+// Appends one JSON object per line. Meant for `netlify dev`; a deployed function's
+// file system is not persistent. A lead.deleted record rewrites the file without the
+// lead and its activity instead of being appended.
+const fs = require("fs/promises");
+
+const recordEmail = (record) => {
+  if (record.type === "lead.created") return record.lead.email;
+  if (record.type === "lead.activity") return record.activity.lead && record.activity.lead.email;
+  return undefined;
+};
+
+async function removeLead(path, email) {
+  let contents;
+  try {
+    contents = await fs.readFile(path, "utf8");
+  } catch (error) {
+    if (error.code === "ENOENT") return;
+    throw error;
+  }
+  const kept = contents.split("\n").filter((line) => line && recordEmail(JSON.parse(line)) !== email);
+  await fs.writeFile(path, kept.map((line) => `${line}\n`).join(""), "utf8");
+}
+
+function createJsonlFileSink({ path }) {
+  return {
+    name: "file",
+    async send(record) {
+      if (record.type === "lead.deleted") {
+        await removeLead(path, record.email);
+        return;
+      }
+      await fs.appendFile(path, `${JSON.stringify(record)}\n`, "utf8");
+    },
+  };
+}
+
+module.exports = { createJsonlFileSink };
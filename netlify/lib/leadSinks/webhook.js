@@ -0,0 +1,37 @@
+// File: netlify/lib/leadSinks/webhook.js
+// Generic JSON webhook for CRMs and automation tools. With a secret, each request
+// carries X-Lead-Timestamp and X-Lead-Signature: sha256=HMAC(secret, "<timestamp>.<body>"),
+// so the receiver can verify the sender and reject replays.
+const crypto = require("crypto");
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+function signPayload(secret, timestamp, body) {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+function createWebhookSink({ url, secret }) {
+  return {
+    name: "webhook",
+    async send(record) {
+      const body = JSON.stringify(record);
+      const headers = { "Content-Type": "application/json" };
+      if (secret) {
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        headers["X-Lead-Timestamp"] = timestamp;
+        headers["X-Lead-Signature"] = `sha256=${signPayload(secret, timestamp, body)}`;
+      }
+      const response = await fetch(url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Lead webhook returned ${response.status} ${response.statusText}`);
+      }
+    },
+  };
+}
+
+module.exports = { createWebhookSink, signPayload };
@@ -0,0 +1,128 @@
+// File: netlify/lib/leads.js
+// Validation and normalization of the lead form submitted by the calculator.
+const crypto = require("crypto");
+const privacy = require("../../privacy.json");
+
+const MAX_NAME_LENGTH = 100;
+const MAX_COMPANY_LENGTH = 200;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+// Consumer mailbox providers. Such leads are accepted but flagged for sales follow-up.
+const FREE_MAIL_DOMAINS = new Set([
+  "gmail.com", "googlemail.com", "yahoo.com", "yahoo.co.uk", "ymail.com", "hotmail.com", "hotmail.co.uk",
+  "outlook.com", "live.com", "msn.com", "icloud.com", "me.com", "mac.com", "aol.com", "proton.me",
+  "protonmail.com", "gmx.com", "gmx.de", "gmx.net", "web.de", "mail.com", "yandex.com", "zoho.com",
+]);
+
+const text = (value) => (typeof value === "string" ? value.trim() : "");
+
+const normalizeEmail = (value) => text(value).toLowerCase();
+
+const isValidEmail = (email) => EMAIL_PATTERN.test(email) && email.length <= 254;
+
+// Keeps digits and a leading "+"; a leading "00" international prefix becomes "+".
+function normalizePhone(value) {
+  const raw = text(value).replace(/^00/, "+");
+  const digits = raw.replace(/\D/g, "");
+  return raw.startsWith("+") ? `+${digits}` : digits;
+}
+
+function isFreeMailDomain(email) {
+  return FREE_MAIL_DOMAINS.has(email.split("@")[1]);
+}
+
+// Checks the contact fields, recording messages in `errors` keyed by form field name
+// so the form can point at them. Returns the normalized contact.
+function checkContact(data, errors) {
+  const firstName = text(data["first-name"]);
+  const lastName = text(data["last-name"]);
+  const email = normalizeEmail(data["business-email"]);
+  const company = text(data.company);
+  const phone = normalizePhone(data.telephone);
+
+  if (!firstName || firstName.length > MAX_NAME_LENGTH) errors["first-name"] = `First name is required (up to ${MAX_NAME_LENGTH} characters).`;
+  if (!lastName || lastName.length > MAX_NAME_LENGTH) errors["last-name"] = `Last name is required (up to ${MAX_NAME_LENGTH} characters).`;
+  if (!isValidEmail(email)) errors["business-email"] = "Enter a valid email address.";
+  if (!company || company.length > MAX_COMPANY_LENGTH) errors.company = `Company is required (up to ${MAX_COMPANY_LENGTH} characters).`;
+  const digitCount = phone.replace(/\D/g, "").length;
+  if (digitCount < 7 || digitCount > 15) errors.telephone = "Enter a phone number with 7 to 15 digits.";
+
+  return { firstName, lastName, email, company, phone };
+}
+
+// Returns { contact } or { errors }; used for invites, which carry no consent.
+function validateContact(body) {
+  const errors = {};
+  const contact = checkContact(body && typeof body === "object" ? body : {}, errors);
+  return Object.keys(errors).length > 0 ? { errors } : { contact };
+}
+
+// Returns { lead } or { errors } keyed by form field name.
+function validateLead(body) {
+  const errors = {};
+  const data = body && typeof body === "object" ? body : {};
+  const contact = checkContact(data, errors);
+
+  // Consent must name the policy version the visitor was shown; a stale page has to reload.
+  // Without a published notice there is nothing to consent to, so no lead is accepted.
+  const consent = data.consent && typeof data.consent === "object" ? data.consent : {};
+  if (!privacy.policyUrl) {
+    errors.consent = "Lead capture is unavailable until the privacy notice is published.";
+  } else if (consent.accepted !== true) {
+    errors.consent = "Please agree to the privacy notice to continue.";
+  } else if (consent.policyVersion !== privacy.policyVersion) {
+    errors.consent = "The privacy notice has been updated. Please reload the page and review it.";
+  }
+
+  if (Object.keys(errors).length > 0) return { errors };
+
+  const receivedAt = new Date().toISOString();
+  return {
+    lead: {
+      ...contact,
+      freeMailDomain: isFreeMailDomain(contact.email),
+      consent: { policyVersion: privacy.policyVersion, acceptedAt: receivedAt },
+      receivedAt,
+    },
+  };
+}
+
+// Repeat submissions from the same address inside the window are acknowledged but not re-sent.
+const DEDUPE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const hash = (value) => crypto.createHash("sha256").update(value).digest("hex");
+
+const leadDedupeKey = (email) => `lead:${hash(email)}`;
+
+async function isDuplicateLead(store, lead) {
+  return (await store.get(leadDedupeKey(lead.email))) !== undefined;
+}
+
+const rememberLead = (store, lead) => store.set(leadDedupeKey(lead.email), lead.receivedAt, DEDUPE_WINDOW_MS);
+
+// Links a browser session to the lead who submitted the form in it, so later scenario
+// activity from that session can name the company.
+const leadSessionKey = (sessionId) => `leadsession:${hash(sessionId)}`;
+
+const rememberLeadSession = (store, sessionId, lead) =>
+  store.set(leadSessionKey(sessionId), { email: lead.email, company: lead.company }, DEDUPE_WINDOW_MS);
+
+const findLeadForSession = (store, sessionId) => store.get(leadSessionKey(sessionId));
+
+// Drops the lead's de-duplication entry, for delete requests. Session links expire on
+// their own within DEDUPE_WINDOW_MS.
+const forgetLead = (store, email) => store.delete(leadDedupeKey(email));
+
+module.exports = {
+  FREE_MAIL_DOMAINS,
+  normalizeEmail,
+  isValidEmail,
+  normalizePhone,
+  validateContact,
+  validateLead,
+  isDuplicateLead,
+  rememberLead,
+  rememberLeadSession,
+  findLeadForSession,
+  forgetLead,
+};
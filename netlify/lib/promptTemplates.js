@@ -0,0 +1,150 @@
+// File: netlify/lib/promptTemplates.js
+// Versioned prompt templates for AI insights. Add a new version rather than editing
+// a published one, so any stored insight can be traced to the exact wording that
+// produced it. Placeholders are {{name}}; rendering fails on a missing value.
+const { createFormatters } = require("./formatting");
+
+const PRESET_NAMES = {
+  conservative: "Conservative",
+  expected: "Expected",
+  aggressive: "Aggressive",
+  custom: "Custom",
+};
+
+// The figures are the same in every version; only the instructions change.
+const INSIGHTS_USER_PROMPT = `
+Generate a concise investment analysis based on this data. All monetary values are in {{currency}}; keep that currency in your response.
+- Number of Employees: {{employees}}
+- Subscription Term: {{term}} years
+- Assumption Preset: {{presetName}} (productivity boost {{productivityBoost}}, turnover reduction {{turnoverReduction}}, training efficiency gain {{trainingEfficiency}} capped at {{maxTrainingHoursSaved}} hours)
+- Annual Training Hours per Employee: {{trainingHours}} ({{trainingHoursSaved}} hours saved)
+- Total ROI: {{totalRoi}}
+- Net Benefit: {{netBenefit}}
+- Total Investment: {{totalInvestment}} (including {{onboardingFee}} one-time onboarding and {{discountTotal}} in discounts)
+- Payback Period: {{monthsToBreakEven}}
+- Benefit Ramp-Up: {{adoption}}
+- Discount Rate: {{discountRate}}
+- Net Present Value (NPV): {{npv}}
+- Internal Rate of Return (IRR): {{irr}}
+- Discounted Payback Period: {{discountedPaybackMonths}}
+- Benefit Breakdown: Productivity Gains are {{productivityShare}}% of the total benefit.
+{{callToAction}}
+`;
+
+const PROMPT_TEMPLATES = {
+  "insights-v1": {
+    system: `
+You are a business analyst providing a professional summary of a Return on Investment (ROI) calculation for "PowerShops".
+Respond with JSON containing exactly three sections, in this order. Each section has a short heading, a body that is a single concise paragraph (2-3 sentences max) in plain text without Markdown, and the ids of the key figures it discusses.
+1. Investment Value Assessment: State the ROI, net benefit, NPV, IRR and payback period. Explain what these strong numbers mean for the business. Key figures: totalRoi, netBenefit, npv, irr.
+2. Key Performance Drivers: Identify the largest benefit contributor (e.g., Productivity Gains). Explain the operational improvements this suggests. Key figures: the benefit lines you mention.
+3. Strategic Recommendations: Based on the strong ROI, recommend immediate implementation and tracking success. Key figures: monthsToBreakEven or discountedPaybackMonths.
+The tone should be authoritative and persuasive.
+`,
+    user: INSIGHTS_USER_PROMPT,
+  },
+  "insights-v2": {
+    system: `
+You are a business analyst providing a professional summary of a Return on Investment (ROI) calculation for "PowerShops".
+Respond with JSON containing exactly three sections, in this order. Each section has a short heading, a body that is a single concise paragraph (2-3 sentences max) in plain text without Markdown, and the ids of the key figures it discusses.
+1. Investment Value Assessment: State the ROI, net benefit, NPV, IRR and payback period. {{valueGuidance}} Key figures: totalRoi, netBenefit, npv, irr.
+2. Key Performance Drivers: Identify the largest benefit contributor (e.g., Productivity Gains). Explain the operational improvements this suggests. Key figures: the benefit lines you mention.
+3. Strategic Recommendations: {{recommendationGuidance}} Key figures: monthsToBreakEven or discountedPaybackMonths.
+The tone should be authoritative and candid; never describe the figures as stronger than they are.
+`,
+    user: INSIGHTS_USER_PROMPT,
+  },
+};
+
+const CURRENT_PROMPT_VERSION = "insights-v2";
+
+// ROI above this earns an explicit demo call to action in the recommendations.
+const CALL_TO_ACTION_ROI = 50;
+
+// The verdict the model is asked for follows the same bands as the rules provider:
+// strong above CALL_TO_ACTION_ROI, modest while still positive, otherwise negative.
+function valueGuidance(results) {
+  const payback = results.monthsToBreakEven > 0 ? "" : " Say that the investment does not pay back within the term.";
+  if (results.totalRoi > CALL_TO_ACTION_ROI) return `Explain what this strong return means for the business.${payback}`;
+  if (results.totalRoi > 0) return `Explain what this positive but modest return means for the business, without overstating it.${payback}`;
+  return `Say plainly that on these assumptions the modeled benefits do not cover the investment.${payback}`;
+}
+
+function recommendationGuidance(results) {
+  if (results.totalRoi > CALL_TO_ACTION_ROI) return "Based on the strong ROI, recommend moving to implementation and tracking success against this baseline.";
+  if (results.totalRoi > 0) return "Based on the modest ROI, recommend a focused pilot with clear success measures before a full rollout.";
+  return "Based on the negative ROI, recommend validating the assumptions and modeling a smaller pilot scope before committing; do not recommend immediate implementation.";
+}
+
+function renderTemplate(template, values) {
+  return template.replace(/\{\{(\w+)\}\}/g, (_, name) => {
+    if (!(name in values)) throw new Error(`Prompt template is missing a value for '${name}'.`);
+    return String(values[name]);
+  }).trim();
+}
+
+// Mirrors productivityShare in roiEngine.ts.
+function productivityShare(results) {
+  return results.totalBenefit > 0 ? Math.round(results.productivityGains / results.totalBenefit * 100) : 0;
+}
+
+// Mirrors describeAdoption in roiEngine.ts.
+function describeAdoption(adoption, term) {
+  if (adoption.kind === "sCurve") {
+    return `S-curve, full adoption by month ${adoption.monthsToFullAdoption}`;
+  }
+  const { yearlyPercent } = adoption;
+  const percents = Array.from({ length: term }, (_, i) =>
+    Math.round(Math.max(0, Math.min(100, yearlyPercent[Math.min(i, yearlyPercent.length - 1)]))));
+  if (percents.every((percent) => percent === 100)) return "Immediate (100% from day one)";
+  return percents.map((percent, i) => `Y${i + 1} ${percent}%`).join(", ");
+}
+
+// Builds the prompt text for a request already checked by validateInsightsRequest.
+function buildPrompt({ locale, preset, inputs, results }, version = CURRENT_PROMPT_VERSION) {
+  const template = PROMPT_TEMPLATES[version];
+  if (!template) throw new Error(`Unknown prompt template version '${version}'.`);
+
+  const { drivers } = inputs;
+  const format = createFormatters(locale, inputs.currency);
+
+  const trainingHoursSaved = Math.max(0, Math.min(inputs.trainingHours * drivers.trainingEfficiency, drivers.maxTrainingHoursSaved));
+
+  const values = {
+    currency: inputs.currency,
+    employees: format.number(inputs.employees),
+    term: inputs.term,
+    presetName: PRESET_NAMES[preset],
+    productivityBoost: format.percent(drivers.productivityBoost * 100),
+    turnoverReduction: format.percent(drivers.turnoverReduction * 100),
+    trainingEfficiency: format.percent(drivers.trainingEfficiency * 100),
+    maxTrainingHoursSaved: format.number(drivers.maxTrainingHoursSaved),
+    trainingHours: format.number(inputs.trainingHours),
+    trainingHoursSaved: format.number(trainingHoursSaved),
+    totalRoi: format.percent(results.totalRoi),
+    netBenefit: format.currency(results.netBenefit),
+    totalInvestment: format.currency(results.totalInvestment),
+    onboardingFee: format.currency(results.onboardingFee),
+    discountTotal: format.currency(results.discountTotal),
+    monthsToBreakEven: format.months(results.monthsToBreakEven),
+    adoption: describeAdoption(inputs.adoption, inputs.term),
+    discountRate: format.percent(inputs.discountRate),
+    npv: format.currency(results.npv),
+    irr: format.optionalPercent(results.irr),
+    discountedPaybackMonths: format.months(results.discountedPaybackMonths),
+    productivityShare: productivityShare(results),
+    valueGuidance: valueGuidance(results),
+    recommendationGuidance: recommendationGuidance(results),
+    callToAction: results.totalRoi > CALL_TO_ACTION_ROI
+      ? "Because the ROI is high, conclude the 'Strategic Recommendations' section with a call to action: 'Schedule a demo to learn more about PowerShops.'"
+      : "",
+  };
+
+  return {
+    version,
+    systemInstruction: renderTemplate(template.system, values),
+    userPrompt: renderTemplate(template.user, values),
+  };
+}
+
+module.exports = { PROMPT_TEMPLATES, CURRENT_PROMPT_VERSION, CALL_TO_ACTION_ROI, PRESET_NAMES, buildPrompt, describeAdoption };
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import promptModule from "./promptTemplates.js";
+
+const { buildPrompt } = promptModule;
+
+const REQUEST = {
+  locale: "en-US",
+  preset: "expected",
+  inputs: {
+    currency: "USD",
+    employees: 100,
+    term: 3,
+    trainingHours: 40,
+    discountRate: 8,
+    adoption: { kind: "yearly", yearlyPercent: [100] },
+    drivers: { productivityBoost: 0.05, turnoverReduction: 0.1, trainingEfficiency: 0.3, maxTrainingHoursSaved: 40, workingHoursPerYear: 2080 },
+  },
+  results: {
+    totalRoi: 550,
+    netBenefit: 830000,
+    totalInvestment: 142500,
+    onboardingFee: 0,
+    discountTotal: 0,
+    npv: 690000,
+    irr: 2.1,
+    monthsToBreakEven: 1.8,
+    discountedPaybackMonths: 2,
+    productivityGains: 780000,
+    totalBenefit: 975000,
+  },
+};
+
+const systemFor = (results) => buildPrompt({ ...REQUEST, results: { ...REQUEST.results, ...results } }).systemInstruction;
+
+describe("buildPrompt", () => {
+  it("asks for a strong case only when the ROI is high", () => {
+    expect(systemFor({})).toContain("this strong return");
+    expect(systemFor({ totalRoi: 20 })).toContain("positive but modest return");
+    expect(systemFor({ totalRoi: 20 })).not.toContain("strong ROI");
+  });
+
+  it("does not recommend implementation when the ROI is negative", () => {
+    const system = systemFor({ totalRoi: -30, netBenefit: -40000, monthsToBreakEven: 0 });
+
+    expect(system).toContain("do not cover the investment");
+    expect(system).toContain("does not pay back within the term");
+    expect(system).toContain("do not recommend immediate implementation");
+  });
+
+  it("keeps rendering published versions", () => {
+    expect(buildPrompt(REQUEST, "insights-v1").systemInstruction).toContain("these strong numbers");
+  });
+});
@@ -0,0 +1,44 @@
+// File: netlify/lib/providers/gemini.js
+const { INSIGHTS_SCHEMA } = require("../insightsSchema");
+
+const DEFAULT_MODEL = "gemini-2.5-flash";
+
+function createGeminiProvider({ apiKey, model = DEFAULT_MODEL }) {
+  // Loaded on first use so the other providers work without the SDK installed
+  let client;
+  const getClient = () => {
+    if (!client) {
+      const { GoogleGenAI } = require("@google/genai");
+      client = new GoogleGenAI({ apiKey });
+    }
+    return client;
+  };
+
+  const params = ({ prompt, signal }) => ({
+    model,
+    contents: prompt.userPrompt,
+    config: {
+      systemInstruction: prompt.systemInstruction,
+      responseMimeType: "application/json",
+      responseJsonSchema: INSIGHTS_SCHEMA,
+      abortSignal: signal,
+    },
+  });
+
+  return {
+    name: "gemini",
+    model,
+    async generate(context) {
+      const response = await getClient().models.generateContent(params(context));
+      return response.text || "";
+    },
+    async *stream(context) {
+      const response = await getClient().models.generateContentStream(params(context));
+      for await (const chunk of response) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  };
+}
+
+module.exports = { createGeminiProvider };
@@ -0,0 +1,47 @@
+// File: netlify/lib/providers/index.js
+// Provider layer for AI insights. A provider turns a validated request and its built
+// prompt into the raw JSON text of the insights:
+//
+//   name, model                                   - recorded with every response
+//   generate({ request, prompt, signal })         - resolves to the full text
+//   stream({ request, prompt, signal })           - async iterable of text chunks
+//
+// Selection (environment variables):
+//   AI_PROVIDER        gemini | openai | rules; when unset, the first configured of
+//                      gemini (API_KEY), openai (OPENAI_API_KEY or OPENAI_BASE_URL), rules
+//   GEMINI_MODEL       defaults to gemini-2.5-flash
+//   OPENAI_BASE_URL    defaults to https://api.openai.com/v1
+//   OPENAI_MODEL       defaults to gpt-4o-mini
+const { createGeminiProvider } = require("./gemini");
+const { createOpenAiCompatibleProvider } = require("./openaiCompatible");
+const { createRulesProvider } = require("./rules");
+
+const PROVIDER_NAMES = ["gemini", "openai", "rules"];
+
+// Throws when AI_PROVIDER names an unknown or unconfigured provider, so a broken
+// deploy fails loudly instead of quietly serving rule-based text.
+function resolveProvider(env) {
+  const requested = env.AI_PROVIDER
+    || (env.API_KEY ? "gemini" : env.OPENAI_API_KEY || env.OPENAI_BASE_URL ? "openai" : "rules");
+
+  switch (requested) {
+    case "gemini":
+      if (!env.API_KEY) throw new Error("AI_PROVIDER is 'gemini' but API_KEY is not set.");
+      return createGeminiProvider({ apiKey: env.API_KEY, model: env.GEMINI_MODEL || undefined });
+    case "openai":
+      if (!env.OPENAI_API_KEY && !env.OPENAI_BASE_URL) {
+        throw new Error("AI_PROVIDER is 'openai' but neither OPENAI_API_KEY nor OPENAI_BASE_URL is set.");
+      }
+      return createOpenAiCompatibleProvider({
+        apiKey: env.OPENAI_API_KEY,
+        baseUrl: env.OPENAI_BASE_URL || undefined,
+        model: env.OPENAI_MODEL || undefined,
+      });
+    case "rules":
+      return createRulesProvider();
+    default:
+      throw new Error(`Unknown AI_PROVIDER '${requested}'. Expected one of: ${PROVIDER_NAMES.join(", ")}.`);
+  }
+}
+
+module.exports = { PROVIDER_NAMES, resolveProvider };
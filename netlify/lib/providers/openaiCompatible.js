@@ -0,0 +1,67 @@
+// File: netlify/lib/providers/openaiCompatible.js
+// Any endpoint that implements the OpenAI Chat Completions API with JSON-schema
+// response formats: OpenAI itself, Azure OpenAI, or a local server during development.
+const { INSIGHTS_SCHEMA } = require("../insightsSchema");
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+function createOpenAiCompatibleProvider({ apiKey, baseUrl = DEFAULT_BASE_URL, model = DEFAULT_MODEL }) {
+  const request = async ({ prompt, signal }, stream) => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        stream,
+        messages: [
+          { role: "system", content: prompt.systemInstruction },
+          { role: "user", content: prompt.userPrompt },
+        ],
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: "roi_insights", strict: true, schema: INSIGHTS_SCHEMA },
+        },
+      }),
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`OpenAI-compatible endpoint returned ${response.status}: ${detail.slice(0, 200)}`);
+    }
+    return response;
+  };
+
+  return {
+    name: "openai-compatible",
+    model,
+    async generate(context) {
+      const data = await (await request(context, false)).json();
+      return data.choices?.[0]?.message?.content || "";
+    },
+    // Chat Completions streams server-sent events: "data: {json}" lines, ending with "data: [DONE]".
+    async *stream(context) {
+      const response = await request(context, true);
+      const decoder = new TextDecoder();
+      let buffer = "";
+      for await (const bytes of response.body) {
+        buffer += decoder.decode(bytes, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop();
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith("data:")) continue;
+          const data = trimmed.slice(5).trim();
+          if (data === "[DONE]") continue;
+          const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      }
+    },
+  };
+}
+
+module.exports = { createOpenAiCompatibleProvider };
@@ -0,0 +1,84 @@
+// File: netlify/lib/providers/rules.js
+// Deterministic narrator that writes the three standard sections from the numbers
+// alone. Needs no network or API key, so demos, local development and tests always
+// get insights; the output passes the same schema validation as a model's.
+const { createFormatters } = require("../formatting");
+const { CALL_TO_ACTION_ROI, describeAdoption } = require("../promptTemplates");
+
+const BENEFIT_LINES = [
+  { id: "productivityGains", label: "productivity gains", outcome: "employees spend more of their time on productive work" },
+  { id: "turnoverReductionSavings", label: "turnover reduction savings", outcome: "fewer departures cut recruiting and onboarding costs" },
+  { id: "trainingTimeSavings", label: "training time savings", outcome: "new and existing staff reach proficiency with less classroom time" },
+];
+
+// Spelled out for prose; the UI's "7.1 mo" is meant for tiles and tables.
+const months = (value, format) => `${format.number(Math.round(value * 10) / 10)} months`;
+
+function valueSection({ inputs, results }, format) {
+  const irr = results.irr === null ? "" : ` and an IRR of ${format.percent(results.irr)}`;
+  const payback = results.monthsToBreakEven > 0
+    ? `The investment pays back in ${months(results.monthsToBreakEven, format)}.`
+    : "The modeled benefits do not recover the investment within the term.";
+  const verdict = results.totalRoi > 0
+    ? "The benefits more than cover the full subscription cost over the term."
+    : "On these assumptions the business case is not yet positive.";
+  return {
+    heading: "Investment Value Assessment",
+    body: `Over a ${inputs.term}-year term, PowerShops is projected to deliver a ${format.percent(results.totalRoi)} ROI and a net benefit of ${format.currency(results.netBenefit)} on a total investment of ${format.currency(results.totalInvestment)}. Discounted at ${format.percent(inputs.discountRate)}, that is an NPV of ${format.currency(results.npv)}${irr}. ${payback} ${verdict}`,
+    keyFigures: results.irr === null ? ["totalRoi", "netBenefit", "npv"] : ["totalRoi", "netBenefit", "npv", "irr"],
+  };
+}
+
+function driversSection({ inputs, results }, format) {
+  const ranked = BENEFIT_LINES
+    .map((line) => ({ ...line, value: results[line.id] }))
+    .sort((a, b) => b.value - a.value);
+  const [largest, second] = ranked;
+  const share = results.totalBenefit > 0 ? Math.round(largest.value / results.totalBenefit * 100) : 0;
+  return {
+    heading: "Key Performance Drivers",
+    body: `The largest contributor is ${largest.label} at ${format.currency(largest.value)}, ${share}% of the total benefit, which indicates ${largest.outcome}. ${second.label.charAt(0).toUpperCase() + second.label.slice(1)} add a further ${format.currency(second.value)}. Benefits ramp up as follows: ${describeAdoption(inputs.adoption, inputs.term)}.`,
+    keyFigures: [largest.id, second.id],
+  };
+}
+
+function recommendationSection({ results }, format) {
+  let body;
+  if (results.totalRoi > CALL_TO_ACTION_ROI) {
+    const payback = results.discountedPaybackMonths > 0
+      ? `a discounted payback of ${months(results.discountedPaybackMonths, format)}`
+      : `a payback of ${months(results.monthsToBreakEven, format)}`;
+    body = `With ${payback}, we recommend moving to implementation promptly and tracking productivity, retention and training hours against this baseline from the first quarter. Schedule a demo to learn more about PowerShops.`;
+  } else if (results.totalRoi > 0) {
+    body = `The case is positive but modest, so we recommend a focused pilot with clear success measures before a full rollout, and revisiting the assumptions with your own retention and training data.`;
+  } else {
+    body = `We recommend validating the assumptions, particularly headcount, turnover and training hours, and modeling a smaller pilot scope before committing to a full rollout.`;
+  }
+  return {
+    heading: "Strategic Recommendations",
+    body,
+    keyFigures: results.discountedPaybackMonths > 0 ? ["discountedPaybackMonths"] : ["monthsToBreakEven"],
+  };
+}
+
+function createRulesProvider() {
+  const narrate = (request) => {
+    const format = createFormatters(request.locale, request.inputs.currency);
+    return JSON.stringify({
+      sections: [valueSection(request, format), driversSection(request, format), recommendationSection(request, format)],
+    });
+  };
+
+  return {
+    name: "rules",
+    model: "rules-narrator-v1",
+    async generate({ request }) {
+      return narrate(request);
+    },
+    async *stream({ request }) {
+      yield narrate(request);
+    },
+  };
+}
+
+module.exports = { createRulesProvider };
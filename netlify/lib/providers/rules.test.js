@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import rulesModule from "./rules.js";
+
+const { createRulesProvider } = rulesModule;
+
+const REQUEST = {
+  locale: "en-US",
+  inputs: { currency: "USD", term: 3, discountRate: 8, adoption: { kind: "yearly", yearlyPercent: [100] } },
+  results: {
+    totalRoi: 550,
+    netBenefit: 830000,
+    totalInvestment: 142500,
+    npv: 690000,
+    irr: 2.1,
+    monthsToBreakEven: 1.8,
+    discountedPaybackMonths: 2,
+    productivityGains: 780000,
+    turnoverReductionSavings: 120000,
+    trainingTimeSavings: 75000,
+    totalBenefit: 975000,
+  },
+};
+
+const valueSection = async (results) => {
+  const text = await createRulesProvider().generate({ request: { ...REQUEST, results: { ...REQUEST.results, ...results } } });
+  return JSON.parse(text).sections[0];
+};
+
+describe("rules provider", () => {
+  it("cites the IRR when there is one", async () => {
+    const section = await valueSection({});
+
+    expect(section.keyFigures).toEqual(["totalRoi", "netBenefit", "npv", "irr"]);
+    expect(section.body).toContain("IRR");
+  });
+
+  it("leaves the IRR out when the cash flows have none", async () => {
+    const section = await valueSection({ irr: null });
+
+    expect(section.keyFigures).toEqual(["totalRoi", "netBenefit", "npv"]);
+    expect(section.body).not.toContain("IRR");
+  });
+});
@@ -0,0 +1,32 @@
+// File: netlify/lib/redact.js
+// Log-safe views of lead records. Function logs are retained by the host and readable
+// by everyone with access to the site, so no log line may contain names, email
+// addresses or phone numbers; the company and session id are kept for correlation.
+
+// "ann.lee@acme.com" -> "a***@acme.com"
+function redactEmail(email) {
+  if (typeof email !== "string" || !email.includes("@")) return "[redacted]";
+  const [local, domain] = email.split("@");
+  return `${local.charAt(0)}***@${domain}`;
+}
+
+function redactRecord(record) {
+  switch (record && record.type) {
+    case "lead.created":
+      return {
+        type: record.type,
+        email: redactEmail(record.lead.email),
+        company: record.lead.company,
+        sessionId: record.lead.sessionId,
+        freeMailDomain: record.lead.freeMailDomain,
+      };
+    case "lead.activity":
+      return { type: record.type, sessionId: record.activity.sessionId, summary: record.activity.summary };
+    case "lead.deleted":
+      return { type: record.type, email: redactEmail(record.email) };
+    default:
+      return { type: record && record.type };
+  }
+}
+
+module.exports = { redactEmail, redactRecord };
@@ -0,0 +1,146 @@
+// File: netlify/lib/store.js
+// Small key-value store used for rate-limit counters, the insights cache, lead
+// de-duplication and the lead retry queue. Both backends share one async interface:
+//
+//   get(key)                    - the stored value, or undefined once expired
+//   set(key, value, ttlMs)
+//   delete(key)
+//   update(key, fn, ttlMs)      - stores fn(current value or undefined) atomically and
+//                                 returns it; the TTL restarts with every update
+//   increment(key, ttlMs)       - adds 1 and returns { count, expiresAt }; the TTL
+//                                 starts with the first increment (fixed window)
+//
+// INSIGHTS_STORE selects the backend:
+//   blobs  - Netlify Blobs (default), shared by every function instance and durable,
+//            so queued leads survive instance recycling and reach retry-leads
+//   memory - lives as long as the function instance; for tests and local runs
+//            outside `netlify dev`
+const { connectLambda, getStore: getBlobsStore } = require("@netlify/blobs");
+
+const MAX_MEMORY_ENTRIES = 10000;
+const BLOBS_STORE_NAME = "powershops-roi";
+const MAX_WRITE_ATTEMPTS = 10;
+
+function createMemoryStore({ now = () => Date.now() } = {}) {
+  const entries = new Map();
+
+  const live = (key) => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt <= now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  // Drops expired entries, then the oldest ones, so memory stays bounded.
+  const prune = () => {
+    if (entries.size < MAX_MEMORY_ENTRIES) return;
+    for (const key of entries.keys()) live(key);
+    for (const key of entries.keys()) {
+      if (entries.size < MAX_MEMORY_ENTRIES) break;
+      entries.delete(key);
+    }
+  };
+
+  return {
+    async get(key) {
+      const entry = live(key);
+      return entry ? entry.value : undefined;
+    },
+    async set(key, value, ttlMs) {
+      prune();
+      entries.set(key, { value, expiresAt: now() + ttlMs });
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async update(key, fn, ttlMs) {
+      const entry = live(key);
+      const value = fn(entry ? entry.value : undefined);
+      prune();
+      entries.set(key, { value, expiresAt: now() + ttlMs });
+      return value;
+    },
+    async increment(key, ttlMs) {
+      const entry = live(key);
+      if (entry) {
+        entry.value += 1;
+        return { count: entry.value, expiresAt: entry.expiresAt };
+      }
+      prune();
+      const expiresAt = now() + ttlMs;
+      entries.set(key, { value: 1, expiresAt });
+      return { count: 1, expiresAt };
+    },
+  };
+}
+
+// `blobs` is a Netlify Blobs store. Each key holds { value, expiresAt } as JSON;
+// Blobs has no expiry of its own, so expired entries read as missing and are deleted
+// then. Read-modify-write operations use the entry's ETag as a compare-and-swap and
+// retry when another instance wrote in between.
+function createBlobsStore(blobs, { now = () => Date.now() } = {}) {
+  const read = async (key) => {
+    const result = await blobs.getWithMetadata(key, { type: "json" });
+    if (!result) return { entry: undefined, etag: undefined };
+    if (!result.data || result.data.expiresAt <= now()) return { entry: undefined, etag: result.etag };
+    return { entry: result.data, etag: result.etag };
+  };
+
+  // Writes next(entry) only if the key is unchanged since it was read.
+  const swap = async (key, next) => {
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const { entry, etag } = await read(key);
+      const written = next(entry);
+      const { modified } = await blobs.setJSON(key, written, etag ? { onlyIfMatch: etag } : { onlyIfNew: true });
+      if (modified) return written;
+    }
+    throw new Error(`Store key ${key} is changing too quickly to update.`);
+  };
+
+  return {
+    async get(key) {
+      const { entry, etag } = await read(key);
+      if (!entry && etag) await blobs.delete(key);
+      return entry ? entry.value : undefined;
+    },
+    async set(key, value, ttlMs) {
+      await blobs.setJSON(key, { value, expiresAt: now() + ttlMs });
+    },
+    async delete(key) {
+      await blobs.delete(key);
+    },
+    async update(key, fn, ttlMs) {
+      const written = await swap(key, (entry) => ({ value: fn(entry ? entry.value : undefined), expiresAt: now() + ttlMs }));
+      return written.value;
+    },
+    async increment(key, ttlMs) {
+      const written = await swap(key, (entry) => (entry
+        ? { value: entry.value + 1, expiresAt: entry.expiresAt }
+        : { value: 1, expiresAt: now() + ttlMs }));
+      return { count: written.value, expiresAt: written.expiresAt };
+    },
+  };
+}
+
+let sharedMemoryStore;
+
+// `lambdaEvent` is the event of a Lambda-compatible (`exports.handler`) function,
+// which carries the Blobs credentials; v2 functions get them from the environment.
+function getStore(env = process.env, lambdaEvent) {
+  const kind = env.INSIGHTS_STORE || "blobs";
+  switch (kind) {
+    case "blobs":
+      if (lambdaEvent && lambdaEvent.blobs) connectLambda(lambdaEvent);
+      return createBlobsStore(getBlobsStore({ name: BLOBS_STORE_NAME, consistency: "strong" }));
+    case "memory":
+      // One store per function instance, so counters survive between warm invocations.
+      if (!sharedMemoryStore) sharedMemoryStore = createMemoryStore();
+      return sharedMemoryStore;
+    default:
+      throw new Error(`Unknown INSIGHTS_STORE '${kind}'. Expected: blobs or memory.`);
+  }
+}
+
+module.exports = { createMemoryStore, createBlobsStore, getStore };
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import storeModule from "./store.js";
+
+const { createBlobsStore, createMemoryStore } = storeModule;
+
+// The part of the Netlify Blobs store API that createBlobsStore uses, with ETags.
+// `beforeWrite` runs once before the next conditional write, to simulate another
+// instance writing in between.
+function fakeBlobs() {
+  const blobs = new Map();
+  let version = 0;
+  const fake = {
+    beforeWrite: null,
+    async getWithMetadata(key) {
+      const blob = blobs.get(key);
+      return blob ? { data: JSON.parse(blob.json), etag: blob.etag, metadata: {} } : null;
+    },
+    async setJSON(key, data, { onlyIfMatch, onlyIfNew } = {}) {
+      if (fake.beforeWrite) {
+        const write = fake.beforeWrite;
+        fake.beforeWrite = null;
+        await write();
+      }
+      const current = blobs.get(key);
+      if ((onlyIfNew && current) || (onlyIfMatch && (!current || current.etag !== onlyIfMatch))) {
+        return { modified: false };
+      }
+      const etag = `"${++version}"`;
+      blobs.set(key, { json: JSON.stringify(data), etag });
+      return { modified: true, etag };
+    },
+    async delete(key) {
+      blobs.delete(key);
+    },
+    has: (key) => blobs.has(key),
+  };
+  return fake;
+}
+
+describe("createBlobsStore", () => {
+  it("reads expired entries as missing and deletes them", async () => {
+    let time = 1000;
+    const blobs = fakeBlobs();
+    const store = createBlobsStore(blobs, { now: () => time });
+
+    await store.set("key", { a: 1 }, 500);
+    expect(await store.get("key")).toEqual({ a: 1 });
+    time = 1500;
+    expect(await store.get("key")).toBeUndefined();
+    expect(blobs.has("key")).toBe(false);
+  });
+
+  it("counts in a fixed window", async () => {
+    let time = 0;
+    const store = createBlobsStore(fakeBlobs(), { now: () => time });
+
+    expect(await store.increment("count", 1000)).toEqual({ count: 1, expiresAt: 1000 });
+    time = 600;
+    expect(await store.increment("count", 1000)).toEqual({ count: 2, expiresAt: 1000 });
+    time = 1000;
+    expect(await store.increment("count", 1000)).toEqual({ count: 1, expiresAt: 2000 });
+  });
+
+  it("retries an update when another instance wrote first", async () => {
+    const blobs = fakeBlobs();
+    const store = createBlobsStore(blobs);
+    const other = createBlobsStore(blobs);
+
+    await store.set("list", ["a"], 1000);
+    blobs.beforeWrite = () => other.update("list", (list) => [...list, "b"], 1000);
+    await store.update("list", (list) => [...list, "c"], 1000);
+
+    expect(await store.get("list")).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("createMemoryStore", () => {
+  it("applies updates to the current value and restarts the TTL", async () => {
+    let time = 0;
+    const store = createMemoryStore({ now: () => time });
+
+    expect(await store.update("list", (list) => [...(list || []), "a"], 1000)).toEqual(["a"]);
+    time = 900;
+    await store.update("list", (list) => [...(list || []), "b"], 1000);
+    time = 1500;
+    expect(await store.get("list")).toEqual(["a", "b"]);
+  });
+});
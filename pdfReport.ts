@@ -0,0 +1,544 @@
+import jsPDF, { GState } from 'jspdf';
+import { describeAdoption, trainingHoursSavedPerEmployee, RoiInputs, RoiResult } from './roiEngine';
+import { activePresetName } from './driverPresets';
+import { Formatters } from './locale';
+import { ScenarioResult, longestTerm } from './scenarios';
+import { AiInsights, describeSource, resolveKeyFigure } from './insights';
+
+// --- PDF REPORT ---
+// Builds the investment report natively with jsPDF from the calculation result:
+// selectable text, vector charts and automatic pagination. Nothing is rasterized,
+// so files stay small and every figure is searchable.
+
+export interface PdfReportData {
+    formData: Record<string, string>;
+    inputs: RoiInputs;
+    result: RoiResult;
+    aiInsights: AiInsights | null;
+    scenarios: ScenarioResult[];
+    formatters: Formatters;
+    reportDate: Date;
+}
+
+const COLORS = {
+    carmine: '#AF222A',
+    red: '#ED2F48',
+    typography: '#404041',
+    mediumText: '#6D6E70',
+    darkGray: '#58585B',
+    lightGray: '#F1F1F2',
+    border: '#DBDCDE',
+    white: '#FFFFFF',
+};
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 16;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 16;
+const CONTENT_BOTTOM = PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT;
+
+interface PdfContext {
+    doc: jsPDF;
+    y: number; // Cursor position of the next element, in mm from the top
+}
+
+interface PdfRow {
+    label: string;
+    value: string;
+}
+
+// The built-in PDF fonts only cover WinAnsi. Some locales format numbers with
+// thin or narrow no-break spaces and a Unicode minus, which would print as garbage.
+const pdfText = (text: string): string =>
+    text.replace(/[\u2009\u200A\u202F]/g, ' ').replace(/\u2212/g, '-');
+
+const setFont = (doc: jsPDF, style: 'normal' | 'bold', size: number, color: string) => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(size);
+    doc.setTextColor(color);
+};
+
+// Starts a new page when the next `height` mm would run into the footer.
+const ensureSpace = (ctx: PdfContext, height: number) => {
+    if (ctx.y + height > CONTENT_BOTTOM) {
+        ctx.doc.addPage();
+        ctx.y = MARGIN;
+    }
+};
+
+const sectionHeading = (ctx: PdfContext, text: string) => {
+    ensureSpace(ctx, 18);
+    ctx.y += 4;
+    setFont(ctx.doc, 'bold', 14, COLORS.carmine);
+    ctx.doc.text(pdfText(text), MARGIN, ctx.y);
+    ctx.y += 7;
+};
+
+const twoColumnGrid = (ctx: PdfContext, rows: PdfRow[]) => {
+    const columnWidth = (CONTENT_WIDTH - 8) / 2;
+    for (let i = 0; i < rows.length; i += 2) {
+        ensureSpace(ctx, 11);
+        rows.slice(i, i + 2).forEach((row, column) => {
+            const x = MARGIN + column * (columnWidth + 8);
+            setFont(ctx.doc, 'normal', 8, COLORS.mediumText);
+            ctx.doc.text(pdfText(row.label), x, ctx.y);
+            setFont(ctx.doc, 'bold', 10, COLORS.typography);
+            ctx.doc.text(ctx.doc.splitTextToSize(pdfText(row.value), columnWidth)[0], x, ctx.y + 4.5);
+        });
+        ctx.y += 11;
+    }
+};
+
+const paragraph = (ctx: PdfContext, text: string, style: 'normal' | 'bold' = 'normal', size = 10, color = COLORS.typography) => {
+    setFont(ctx.doc, style, size, color);
+    const lineHeight = size * 0.45;
+    const lines: string[] = ctx.doc.splitTextToSize(pdfText(text), CONTENT_WIDTH);
+    lines.forEach(line => {
+        ensureSpace(ctx, lineHeight);
+        ctx.doc.text(line, MARGIN, ctx.y);
+        ctx.y += lineHeight;
+    });
+};
+
+const metricTiles = (ctx: PdfContext, tiles: PdfRow[]) => {
+    const gap = 4;
+    const width = (CONTENT_WIDTH - gap * 2) / 3;
+    const height = 20;
+    for (let i = 0; i < tiles.length; i += 3) {
+        ensureSpace(ctx, height + gap);
+        tiles.slice(i, i + 3).forEach((tile, column) => {
+            const x = MARGIN + column * (width + gap);
+            ctx.doc.setFillColor(COLORS.lightGray);
+            ctx.doc.roundedRect(x, ctx.y, width, height, 2, 2, 'F');
+            setFont(ctx.doc, 'bold', 7.5, COLORS.typography);
+            ctx.doc.text(pdfText(tile.label.toUpperCase()), x + width / 2, ctx.y + 6, { align: 'center' });
+            setFont(ctx.doc, 'bold', 16, COLORS.red);
+            ctx.doc.text(pdfText(tile.value), x + width / 2, ctx.y + 15, { align: 'center' });
+        });
+        ctx.y += height + gap;
+    }
+};
+
+const benefitBars = (ctx: PdfContext, bars: { label: string; value: number }[], formatCurrency: (value: number) => string) => {
+    const maxValue = Math.max(...bars.map(bar => bar.value), 1);
+    bars.forEach(bar => {
+        ensureSpace(ctx, 12);
+        setFont(ctx.doc, 'normal', 9, COLORS.typography);
+        ctx.doc.text(pdfText(bar.label), MARGIN, ctx.y);
+        setFont(ctx.doc, 'bold', 9, COLORS.typography);
+        ctx.doc.text(pdfText(formatCurrency(bar.value)), MARGIN + CONTENT_WIDTH, ctx.y, { align: 'right' });
+        ctx.doc.setFillColor(COLORS.lightGray);
+        ctx.doc.roundedRect(MARGIN, ctx.y + 2, CONTENT_WIDTH, 3.5, 1.75, 1.75, 'F');
+        const width = (bar.value / maxValue) * CONTENT_WIDTH;
+        if (width > 0) {
+            ctx.doc.setFillColor(COLORS.red);
+            ctx.doc.roundedRect(MARGIN, ctx.y + 2, Math.max(width, 3.5), 3.5, 1.75, 1.75, 'F');
+        }
+        ctx.y += 12;
+    });
+};
+
+const highlightBar = (ctx: PdfContext, label: string, value: string) => {
+    ensureSpace(ctx, 14);
+    ctx.doc.setFillColor(COLORS.red);
+    ctx.doc.roundedRect(MARGIN, ctx.y, CONTENT_WIDTH, 11, 2, 2, 'F');
+    setFont(ctx.doc, 'bold', 10, COLORS.white);
+    ctx.doc.text(pdfText(label), MARGIN + 4, ctx.y + 7);
+    setFont(ctx.doc, 'bold', 13, COLORS.white);
+    ctx.doc.text(pdfText(value), MARGIN + CONTENT_WIDTH - 4, ctx.y + 7.5, { align: 'right' });
+    ctx.y += 15;
+};
+
+const table = (ctx: PdfContext, headers: string[], rows: string[][], columnWidths: number[]) => {
+    const rowHeight = 7;
+    const drawRow = (cells: string[], isHeader: boolean) => {
+        ensureSpace(ctx, rowHeight);
+        let x = MARGIN;
+        cells.forEach((cell, column) => {
+            setFont(ctx.doc, isHeader ? 'normal' : column === 0 ? 'bold' : 'normal', 9, isHeader ? COLORS.mediumText : COLORS.typography);
+            const text = ctx.doc.splitTextToSize(pdfText(cell), columnWidths[column] - 2)[0];
+            if (column === 0) {
+                ctx.doc.text(text, x, ctx.y + 4.5);
+            } else {
+                ctx.doc.text(text, x + columnWidths[column], ctx.y + 4.5, { align: 'right' });
+            }
+            x += columnWidths[column];
+        });
+        ctx.doc.setDrawColor(COLORS.border);
+        ctx.doc.line(MARGIN, ctx.y + rowHeight, MARGIN + CONTENT_WIDTH, ctx.y + rowHeight);
+        ctx.y += rowHeight;
+    };
+    drawRow(headers, true);
+    rows.forEach(row => drawRow(row, false));
+    ctx.y += 4;
+};
+
+// --- VECTOR CHART ---
+
+interface ChartSeries {
+    label: string;
+    values: (number | undefined)[]; // One value per month; undefined stops the line
+    color: string;
+    fillOpacity?: number; // Fills down to zero when set
+    step?: boolean; // Draw as a step function (e.g. costs billed at year start)
+}
+
+const lineChart = (
+    ctx: PdfContext,
+    { months, series, formatY, markerMonth, markerLabel }: {
+        months: number;
+        series: ChartSeries[];
+        formatY: (value: number) => string;
+        markerMonth?: number;
+        markerLabel?: string;
+    }
+) => {
+    const { doc } = ctx;
+    const height = 62;
+    const legendHeight = 8;
+    ensureSpace(ctx, height + legendHeight + 10);
+
+    const axisWidth = 16;
+    const left = MARGIN + axisWidth;
+    const width = CONTENT_WIDTH - axisWidth;
+    const top = ctx.y + 2;
+    const bottom = top + height;
+
+    const allValues = series.flatMap(s => s.values.filter((v): v is number => v !== undefined));
+    const minValue = Math.min(0, ...allValues);
+    const maxValue = Math.max(0, ...allValues);
+    const span = maxValue - minValue || 1;
+    const yMin = minValue < 0 ? minValue - span * 0.05 : 0;
+    const yMax = maxValue + span * 0.05;
+
+    const xAt = (month: number) => left + (months > 0 ? (month / months) * width : 0);
+    const yAt = (value: number) => bottom - ((value - yMin) / (yMax - yMin)) * height;
+
+    // Grid and axis labels
+    doc.setLineWidth(0.1);
+    doc.setDrawColor(COLORS.border);
+    setFont(doc, 'normal', 7, COLORS.mediumText);
+    for (let i = 0; i <= 4; i++) {
+        const value = yMin + ((yMax - yMin) * i) / 4;
+        const y = yAt(value);
+        doc.line(left, y, left + width, y);
+        doc.text(pdfText(formatY(value)), left - 2, y + 1, { align: 'right' });
+    }
+    for (let year = 0; year <= months / 12; year++) {
+        const x = xAt(year * 12);
+        doc.line(x, top, x, bottom);
+        doc.text(`Year ${year}`, x, bottom + 4, { align: 'center' });
+    }
+    if (yMin < 0) {
+        doc.setDrawColor(COLORS.typography);
+        doc.setLineWidth(0.3);
+        doc.line(left, yAt(0), left + width, yAt(0));
+    }
+
+    series.forEach(s => {
+        const points: [number, number][] = [];
+        s.values.forEach((value, month) => {
+            if (value === undefined) return;
+            if (s.step && points.length > 0) {
+                points.push([xAt(month), points[points.length - 1][1]]);
+            }
+            points.push([xAt(month), yAt(value)]);
+        });
+        if (points.length < 2) return;
+
+        if (s.fillOpacity !== undefined) {
+            doc.saveGraphicsState();
+            doc.setGState(new GState({ opacity: s.fillOpacity }));
+            doc.setFillColor(s.color);
+            doc.moveTo(points[0][0], yAt(0));
+            points.forEach(([x, y]) => doc.lineTo(x, y));
+            doc.lineTo(points[points.length - 1][0], yAt(0));
+            doc.close();
+            doc.fill();
+            doc.restoreGraphicsState();
+        }
+
+        doc.setDrawColor(s.color);
+        doc.setLineWidth(0.5);
+        doc.moveTo(points[0][0], points[0][1]);
+        points.slice(1).forEach(([x, y]) => doc.lineTo(x, y));
+        doc.stroke();
+    });
+
+    if (markerMonth !== undefined && markerMonth > 0) {
+        const x = xAt(markerMonth);
+        doc.setDrawColor(COLORS.carmine);
+        doc.setLineWidth(0.3);
+        doc.setLineDashPattern([1.5, 1.5], 0);
+        doc.line(x, top, x, bottom);
+        doc.setLineDashPattern([], 0);
+        if (markerLabel) {
+            setFont(doc, 'bold', 7, COLORS.carmine);
+            doc.text(pdfText(markerLabel), x + 1, top + 3);
+        }
+    }
+
+    // Legend
+    let legendX = left;
+    const legendY = bottom + 10;
+    series.forEach(s => {
+        doc.setFillColor(s.color);
+        doc.rect(legendX, legendY - 2.5, 3, 3, 'F');
+        setFont(doc, 'normal', 8, COLORS.typography);
+        const label = pdfText(s.label);
+        doc.text(label, legendX + 4.5, legendY);
+        legendX += 4.5 + doc.getTextWidth(label) + 6;
+    });
+
+    ctx.y = legendY + 6;
+};
+
+// --- REPORT SECTIONS ---
+
+// Contact rows are left out when the calculator was used without the lead form.
+const clientRows = (data: PdfReportData): PdfRow[] => {
+    const { formData, inputs, formatters } = data;
+    return [
+        { label: 'Company:', value: formData.company },
+        { label: 'Contact:', value: `${formData['first-name']} ${formData['last-name']}` },
+        { label: 'Email:', value: formData['business-email'] },
+        { label: 'Phone:', value: formData.telephone },
+        { label: 'Report Date:', value: formatters.formatDate(data.reportDate) },
+        { label: 'Analysis Period:', value: `${inputs.term} Years` },
+    ].filter(row => row.value.trim() !== '');
+};
+
+const assumptionRows = ({ inputs, formatters }: PdfReportData): PdfRow[] => {
+    const { formatCurrency, formatNumber, formatPercent } = formatters;
+    return [
+        { label: 'Reporting Currency', value: inputs.currency },
+        { label: 'Number of Employees', value: formatNumber(inputs.employees) },
+        ...(inputs.segments.length > 0 ? [{ label: 'Employee Segments', value: `${inputs.segments.length} (see Benefit by Segment)` }] : []),
+        { label: 'Average Employee Annual Salary', value: formatCurrency(inputs.salary) },
+        { label: 'Annual Employee Training Hours', value: `${inputs.trainingHours} hours` },
+        { label: 'Annual Employee Turnover Rate', value: formatPercent(inputs.turnover) },
+        { label: 'Replacement Cost per Employee', value: formatCurrency(inputs.replaceCost) },
+        { label: 'Subscription Term', value: `${inputs.term} years` },
+        { label: 'Discount Rate', value: formatPercent(inputs.discountRate) },
+        { label: 'Annual Cost Growth (status quo)', value: formatPercent(inputs.costGrowth) },
+        { label: 'Benefit Ramp-Up', value: describeAdoption(inputs.adoption, inputs.term) },
+        { label: 'Assumption Preset', value: activePresetName(inputs.drivers) },
+        { label: 'Productivity Boost', value: formatPercent(inputs.drivers.productivityBoost * 100) },
+        { label: 'Turnover Reduction', value: formatPercent(inputs.drivers.turnoverReduction * 100) },
+        { label: 'Training Efficiency Gain', value: `${formatPercent(inputs.drivers.trainingEfficiency * 100)} (max ${inputs.drivers.maxTrainingHoursSaved} hours)` },
+        { label: 'Training Hours Saved per Employee', value: `${formatNumber(trainingHoursSavedPerEmployee(inputs.trainingHours, inputs.drivers))} hours` },
+        { label: 'Working Hours per Year', value: formatNumber(inputs.drivers.workingHoursPerYear) },
+    ];
+};
+
+const statusQuoSection = (ctx: PdfContext, { inputs, result, formatters }: PdfReportData) => {
+    const { formatCurrency } = formatters;
+    const { statusQuo } = result;
+    sectionHeading(ctx, 'The Cost of Doing Nothing');
+    twoColumnGrid(ctx, [
+        { label: 'Turnover Cost per Year', value: formatCurrency(statusQuo.annualTurnoverCost) },
+        { label: 'Training Hours Cost per Year', value: formatCurrency(statusQuo.annualTrainingCost) },
+        { label: 'Status Quo Today per Year', value: formatCurrency(statusQuo.annualTotal) },
+        { label: `Status Quo Over ${inputs.term} Years (+${inputs.costGrowth}% / year)`, value: formatCurrency(statusQuo.totalOverTerm) },
+    ]);
+    highlightBar(ctx, `Net Position with PowerShops Over ${inputs.term} Years`, formatCurrency(result.netBenefit));
+};
+
+const costSection = (ctx: PdfContext, { inputs, result, formatters }: PdfReportData) => {
+    const { formatCurrency, formatNumber } = formatters;
+    const { seatTier, years, onboardingFee, discountTotal } = result.costBreakdown;
+    const phased = years.some(year => year.employees !== inputs.employees);
+    const rows: PdfRow[] = [
+        { label: `Seats${phased ? ' at full rollout' : ''}: ${formatNumber(inputs.employees)} x ${formatCurrency(seatTier.pricePerEmployee)} / year`, value: formatCurrency(inputs.employees * seatTier.pricePerEmployee) },
+        ...years.map(year => ({ label: `Year ${year.year} subscription`, value: formatCurrency(year.total) })),
+    ];
+    if (discountTotal > 0) rows.push({ label: 'Multi-year and negotiated discounts', value: `-${formatCurrency(discountTotal)}` });
+    if (onboardingFee > 0) rows.push({ label: 'One-time onboarding', value: formatCurrency(onboardingFee) });
+
+    const boxHeight = 22 + rows.length * 5 + 7;
+    ensureSpace(ctx, boxHeight + 4);
+    ctx.doc.setFillColor(COLORS.lightGray);
+    ctx.doc.roundedRect(MARGIN, ctx.y, CONTENT_WIDTH, boxHeight, 2, 2, 'F');
+
+    let y = ctx.y + 7;
+    setFont(ctx.doc, 'bold', 10, COLORS.typography);
+    ctx.doc.text('PowerShops Annual Cost', MARGIN + 4, y);
+    setFont(ctx.doc, 'bold', 16, COLORS.typography);
+    ctx.doc.text(pdfText(formatCurrency(result.powerShopsAnnualCost)), MARGIN + 4, y + 8);
+    setFont(ctx.doc, 'normal', 7, COLORS.mediumText);
+    ctx.doc.text('*Average per year over the term, after discounts.', MARGIN + 4, y + 13);
+    y += 19;
+
+    const drawRow = (row: PdfRow, bold: boolean) => {
+        setFont(ctx.doc, bold ? 'bold' : 'normal', 8.5, bold ? COLORS.typography : COLORS.mediumText);
+        ctx.doc.text(pdfText(row.label), MARGIN + 4, y);
+        ctx.doc.text(pdfText(row.value), MARGIN + CONTENT_WIDTH - 4, y, { align: 'right' });
+        y += 5;
+    };
+    rows.forEach(row => drawRow(row, false));
+    ctx.doc.setDrawColor(COLORS.border);
+    ctx.doc.line(MARGIN + 4, y - 3, MARGIN + CONTENT_WIDTH - 4, y - 3);
+    y += 1;
+    drawRow({ label: 'Total Investment', value: formatCurrency(result.totalInvestment) }, true);
+
+    ctx.y += boxHeight + 4;
+};
+
+const insightsSection = (ctx: PdfContext, { aiInsights, result, formatters }: PdfReportData) => {
+    if (!aiInsights) {
+        paragraph(ctx, 'Insights not generated.', 'normal', 10, COLORS.mediumText);
+        return;
+    }
+    aiInsights.sections.forEach(section => {
+        ctx.y += 2;
+        paragraph(ctx, section.heading, 'bold', 10.5);
+        ctx.y += 1;
+        paragraph(ctx, section.body);
+        if (section.keyFigures.length > 0) {
+            ctx.y += 1;
+            const figures = section.keyFigures.map(id => resolveKeyFigure(id, result, formatters));
+            paragraph(ctx, figures.map(figure => `${figure.label}: ${figure.value}`).join('   |   '), 'bold', 8.5, COLORS.mediumText);
+        }
+        ctx.y += 2;
+    });
+    if (aiInsights.source) {
+        paragraph(ctx, `${describeSource(aiInsights.source)}.`, 'normal', 7.5, COLORS.mediumText);
+    }
+};
+
+const segmentSection = (ctx: PdfContext, { inputs, result, formatters }: PdfReportData) => {
+    const { formatCurrency, formatNumber, formatPercent } = formatters;
+    sectionHeading(ctx, 'Benefit by Segment');
+    table(
+        ctx,
+        ['Segment', 'Employees', 'Salary', 'Turnover', 'Rollout', 'Total Benefit', 'Share'],
+        result.segmentBenefits.map((segment, index) => [
+            segment.name || `Segment ${index + 1}`,
+            formatNumber(segment.employees),
+            formatCurrency(inputs.segments[index].salary),
+            formatPercent(inputs.segments[index].turnover),
+            `Year ${segment.rolloutYear}`,
+            formatCurrency(segment.totalBenefit),
+            `${result.totalBenefit > 0 ? Math.round(segment.totalBenefit / result.totalBenefit * 100) : 0}%`,
+        ]),
+        [44, 20, 28, 20, 18, 32, 16]
+    );
+};
+
+const scenarioSection = (ctx: PdfContext, { scenarios, formatters }: PdfReportData) => {
+    const { formatCurrency, formatCurrencyK, formatPercent, formatMonths } = formatters;
+    sectionHeading(ctx, 'Scenario Comparison');
+    table(
+        ctx,
+        ['Scenario', 'Total Investment', 'Net Benefit', 'ROI', 'Break-Even'],
+        scenarios.map(s => [s.name, formatCurrency(s.result.totalInvestment), formatCurrencyK(s.result.netBenefit), formatPercent(s.result.totalRoi), formatMonths(s.result.monthsToBreakEven)]),
+        [62, 34, 30, 22, 30]
+    );
+
+    sectionHeading(ctx, 'Cumulative Net Cash Flow by Scenario');
+    const months = longestTerm(scenarios) * 12;
+    lineChart(ctx, {
+        months,
+        formatY: formatCurrencyK,
+        series: scenarios.map(s => ({
+            label: s.name,
+            color: s.color,
+            values: Array.from({ length: months + 1 }, (_, month) => s.result.cashFlowData[month]?.netCashFlow),
+        })),
+    });
+};
+
+const drawPageChrome = (doc: jsPDF, reportDate: Date) => {
+    const pageCount = doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+        doc.setPage(page);
+        const footerTop = PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT + 4;
+        doc.setDrawColor(COLORS.border);
+        doc.setLineWidth(0.2);
+        doc.line(MARGIN, footerTop, MARGIN + CONTENT_WIDTH, footerTop);
+        setFont(doc, 'normal', 8, COLORS.mediumText);
+        doc.text('www.createone.com', MARGIN, footerTop + 6);
+        doc.text('Contact: success@createone.com', MARGIN + CONTENT_WIDTH, footerTop + 6, { align: 'right' });
+        setFont(doc, 'normal', 7, COLORS.mediumText);
+        doc.text(`© ${reportDate.getFullYear()} PowerShops by Create One - All Rights Reserved`, PAGE_WIDTH / 2, footerTop + 11, { align: 'center' });
+        doc.text(`Page ${page} of ${pageCount}`, MARGIN + CONTENT_WIDTH, footerTop + 11, { align: 'right' });
+    }
+};
+
+export const buildPdfReport = (data: PdfReportData): jsPDF => {
+    const { formData, inputs, result, formatters, reportDate } = data;
+    const { formatCurrency, formatCurrencyK, formatPercent, formatOptionalPercent, formatMonths } = formatters;
+
+    const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'a4', compress: true });
+    const company = formData.company || 'Prospect';
+    doc.setProperties({
+        title: `PowerShops Investment Analysis Report - ${company}`,
+        subject: `PowerShops ROI analysis for ${company}, ${formatters.formatDate(reportDate)}`,
+        author: 'Create One',
+        keywords: `PowerShops, ROI, ${company}`,
+        creator: 'PowerShops ROI Calculator',
+    });
+    doc.setCreationDate(reportDate);
+
+    const ctx: PdfContext = { doc, y: MARGIN + 6 };
+
+    // --- Title ---
+    setFont(doc, 'bold', 22, COLORS.carmine);
+    doc.text('Create One', MARGIN, ctx.y);
+    setFont(doc, 'bold', 20, COLORS.typography);
+    doc.text('PowerShops Investment Analysis Report', MARGIN, ctx.y + 10);
+    ctx.y += 18;
+
+    sectionHeading(ctx, 'Client Information');
+    twoColumnGrid(ctx, clientRows(data));
+
+    sectionHeading(ctx, 'Analysis Assumptions');
+    twoColumnGrid(ctx, assumptionRows(data));
+    costSection(ctx, data);
+
+    sectionHeading(ctx, 'Executive Summary');
+    metricTiles(ctx, [
+        { label: 'Total ROI', value: formatPercent(result.totalRoi) },
+        { label: 'Net Benefit', value: formatCurrencyK(result.netBenefit) },
+        { label: 'Break-Even', value: formatMonths(result.monthsToBreakEven) },
+        { label: `NPV @ ${formatPercent(inputs.discountRate)}`, value: formatCurrencyK(result.npv) },
+        { label: 'IRR', value: formatOptionalPercent(result.irr) },
+        { label: 'Discounted Payback', value: formatMonths(result.discountedPaybackMonths) },
+    ]);
+    statusQuoSection(ctx, data);
+
+    sectionHeading(ctx, 'Benefit Analysis');
+    benefitBars(ctx, [
+        { label: 'Productivity Gains', value: result.productivityGains },
+        { label: 'Turnover Reduction Savings', value: result.turnoverReductionSavings },
+        { label: 'Training Time Savings', value: result.trainingTimeSavings },
+    ], formatCurrency);
+    highlightBar(ctx, `Total Benefits Over ${inputs.term} Years`, formatCurrency(result.totalBenefit));
+    if (result.segmentBenefits.length > 0) {
+        segmentSection(ctx, data);
+    }
+
+    sectionHeading(ctx, 'Cash Flow Analysis');
+    lineChart(ctx, {
+        months: inputs.term * 12,
+        formatY: formatCurrencyK,
+        markerMonth: result.monthsToBreakEven,
+        markerLabel: 'Break-even',
+        series: [
+            { label: 'Cumulative Benefits', color: COLORS.red, fillOpacity: 0.2, values: result.cashFlowData.map(point => point.cumulativeBenefit) },
+            { label: 'Cumulative Costs', color: COLORS.darkGray, fillOpacity: 0.4, step: true, values: result.cashFlowData.map(point => point.cumulativeCost) },
+            { label: 'Cost of Doing Nothing', color: COLORS.typography, fillOpacity: 0.08, values: result.cashFlowData.map(point => point.cumulativeInactionCost) },
+        ],
+    });
+
+    sectionHeading(ctx, 'AI-Powered Investment Insights');
+    insightsSection(ctx, data);
+
+    if (data.scenarios.length > 0) {
+        scenarioSection(ctx, data);
+    }
+
+    drawPageChrome(doc, reportDate);
+    return doc;
+};
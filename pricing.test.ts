@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parsePricingSchedule, DEFAULT_PRICING_SCHEDULE } from './pricing';
+
+const CONFIG = {
+    version: 'test',
+    baseCurrency: 'USD',
+    exchangeRates: { USD: 1, EUR: 0.92, GBP: 0.79, CAD: 1.37, AUD: 1.52 },
+    seatTiers: [{ minEmployees: 1000, pricePerEmployee: 450 }, { minEmployees: 1, pricePerEmployee: 500 }],
+    platformFeePerYear: 0,
+    yearDiscountPercent: [0, 5],
+    onboardingFee: { base: 0, perEmployee: 0 },
+    maxCustomDiscountPercent: 25,
+};
+
+describe('parsePricingSchedule', () => {
+    it('ships the flat list price only', () => {
+        expect(DEFAULT_PRICING_SCHEDULE.seatTiers).toEqual([{ minEmployees: 1, pricePerEmployee: 500 }]);
+    });
+
+    it('sorts the seat tiers by headcount', () => {
+        expect(parsePricingSchedule(CONFIG).seatTiers.map(tier => tier.minEmployees)).toEqual([1, 1000]);
+    });
+
+    it('names the field that is invalid', () => {
+        expect(() => parsePricingSchedule(null)).toThrow('"version"');
+        expect(() => parsePricingSchedule({ ...CONFIG, baseCurrency: 'JPY' })).toThrow('"baseCurrency"');
+        expect(() => parsePricingSchedule({ ...CONFIG, exchangeRates: { ...CONFIG.exchangeRates, GBP: 0 } })).toThrow('"exchangeRates.GBP"');
+        expect(() => parsePricingSchedule({ ...CONFIG, seatTiers: [{ minEmployees: 1 }] })).toThrow('"seatTiers[0]"');
+        expect(() => parsePricingSchedule({ ...CONFIG, yearDiscountPercent: [0, 120] })).toThrow('"yearDiscountPercent"');
+    });
+});
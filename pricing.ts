@@ -0,0 +1,150 @@
+import pricingConfig from './pricing.json';
+import { asRecord, isFiniteNumber } from './guards';
+
+// --- PRICING SCHEDULE ---
+// The commercial price list lives in pricing.json so sales ops can change tiers,
+// fees and discounts without touching the ROI math.
+
+export const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD'] as const;
+export type CurrencyCode = typeof CURRENCY_CODES[number];
+
+// Volume pricing: the highest tier whose `minEmployees` the prospect reaches
+// applies to every seat.
+export interface SeatTier {
+    minEmployees: number;
+    pricePerEmployee: number; // Annual list price per seat
+}
+
+// All amounts are in `baseCurrency`. Other currencies are converted with the
+// fixed `exchangeRates` table (units per 1 USD) – there is no live FX lookup.
+export interface PricingSchedule {
+    version: string;
+    baseCurrency: CurrencyCode;
+    exchangeRates: Record<CurrencyCode, number>;
+    seatTiers: SeatTier[];
+    platformFeePerYear: number;
+    yearDiscountPercent: number[]; // Off the seat price in contract year N (index N-1); the last entry repeats
+    onboardingFee: { base: number; perEmployee: number }; // One-off, billed with year 1
+    maxCustomDiscountPercent: number; // Ceiling for negotiated discounts
+}
+
+export interface YearCost {
+    year: number;
+    employees: number; // Seats billed this year
+    seats: number; // Seat subscription at list price
+    termDiscount: number;
+    platformFee: number;
+    customDiscount: number;
+    total: number;
+}
+
+export interface CostBreakdown {
+    seatTier: SeatTier;
+    years: YearCost[];
+    onboardingFee: number;
+    recurringTotal: number;
+    discountTotal: number;
+    totalInvestment: number;
+}
+
+const isNonNegativeNumber = (value: unknown): value is number => isFiniteNumber(value) && value >= 0;
+
+const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+    typeof value === 'string' && (CURRENCY_CODES as readonly string[]).includes(value);
+
+// Validates an untrusted pricing config, throwing with the offending field so a
+// bad edit to pricing.json fails loudly at startup instead of mispricing quotes.
+export const parsePricingSchedule = (raw: unknown): PricingSchedule => {
+    const fail = (field: string): never => { throw new Error(`Invalid pricing config: "${field}"`); };
+    const config = asRecord(raw);
+    const { version, baseCurrency, seatTiers, platformFeePerYear, yearDiscountPercent, maxCustomDiscountPercent } = config;
+    const exchangeRates = asRecord(config.exchangeRates);
+    const onboardingFee = asRecord(config.onboardingFee);
+
+    if (typeof version !== 'string') return fail('version');
+    if (!isCurrencyCode(baseCurrency)) return fail('baseCurrency');
+    const rates = CURRENCY_CODES.map(code => {
+        const rate = exchangeRates[code];
+        return isNonNegativeNumber(rate) && rate > 0 ? [code, rate] as const : fail(`exchangeRates.${code}`);
+    });
+    if (!Array.isArray(seatTiers) || seatTiers.length === 0) return fail('seatTiers');
+    const tiers = seatTiers.map((tier: unknown, i: number): SeatTier => {
+        const { minEmployees, pricePerEmployee } = asRecord(tier);
+        return isNonNegativeNumber(minEmployees) && isNonNegativeNumber(pricePerEmployee)
+            ? { minEmployees, pricePerEmployee }
+            : fail(`seatTiers[${i}]`);
+    });
+    if (!isNonNegativeNumber(platformFeePerYear)) return fail('platformFeePerYear');
+    if (!Array.isArray(yearDiscountPercent) || !yearDiscountPercent.every((d: unknown): d is number => isNonNegativeNumber(d) && d <= 100)) return fail('yearDiscountPercent');
+    if (!isNonNegativeNumber(onboardingFee.base) || !isNonNegativeNumber(onboardingFee.perEmployee)) return fail('onboardingFee');
+    if (!isNonNegativeNumber(maxCustomDiscountPercent) || maxCustomDiscountPercent > 100) return fail('maxCustomDiscountPercent');
+
+    return {
+        version,
+        baseCurrency,
+        exchangeRates: Object.fromEntries(rates) as Record<CurrencyCode, number>,
+        seatTiers: tiers.sort((a, b) => a.minEmployees - b.minEmployees),
+        platformFeePerYear,
+        yearDiscountPercent: [...yearDiscountPercent],
+        onboardingFee: { base: onboardingFee.base, perEmployee: onboardingFee.perEmployee },
+        maxCustomDiscountPercent,
+    };
+};
+
+export const DEFAULT_PRICING_SCHEDULE: PricingSchedule = parsePricingSchedule(pricingConfig);
+
+export const convertAmount = (amount: number, from: CurrencyCode, to: CurrencyCode, schedule: PricingSchedule = DEFAULT_PRICING_SCHEDULE): number =>
+    from === to ? amount : amount * (schedule.exchangeRates[to] / schedule.exchangeRates[from]);
+
+// Re-expresses every price in the schedule in `currency`.
+export const convertPricingSchedule = (schedule: PricingSchedule, currency: CurrencyCode): PricingSchedule => {
+    if (currency === schedule.baseCurrency) return schedule;
+    const convert = (amount: number) => convertAmount(amount, schedule.baseCurrency, currency, schedule);
+    return {
+        ...schedule,
+        baseCurrency: currency,
+        seatTiers: schedule.seatTiers.map(tier => ({ ...tier, pricePerEmployee: convert(tier.pricePerEmployee) })),
+        platformFeePerYear: convert(schedule.platformFeePerYear),
+        onboardingFee: { base: convert(schedule.onboardingFee.base), perEmployee: convert(schedule.onboardingFee.perEmployee) },
+    };
+};
+
+export const seatTierFor = (employees: number, schedule: PricingSchedule): SeatTier =>
+    schedule.seatTiers.reduce((match, tier) => (employees >= tier.minEmployees ? tier : match), schedule.seatTiers[0]);
+
+export const yearDiscountFor = (year: number, schedule: PricingSchedule): number => {
+    const discounts = schedule.yearDiscountPercent;
+    if (discounts.length === 0) return 0;
+    return discounts[Math.min(year, discounts.length) - 1];
+};
+
+// The year discount applies to seats only; the negotiated discount applies to the
+// whole recurring charge. Onboarding is never discounted. The tier and onboarding
+// follow the contracted `employees`; with a phased rollout, `seatsByYear` lists the
+// seats actually billed in each contract year.
+export const priceSubscription = (
+    employees: number,
+    term: number,
+    customDiscountPercent: number,
+    schedule: PricingSchedule = DEFAULT_PRICING_SCHEDULE,
+    seatsByYear?: number[]
+): CostBreakdown => {
+    const seatTier = seatTierFor(employees, schedule);
+    const customRate = Math.min(Math.max(customDiscountPercent, 0), schedule.maxCustomDiscountPercent) / 100;
+
+    const years: YearCost[] = [];
+    for (let year = 1; year <= term; year++) {
+        const billedEmployees = seatsByYear?.[year - 1] ?? employees;
+        const seats = billedEmployees * seatTier.pricePerEmployee;
+        const termDiscount = seats * (yearDiscountFor(year, schedule) / 100);
+        const platformFee = schedule.platformFeePerYear;
+        const customDiscount = (seats - termDiscount + platformFee) * customRate;
+        years.push({ year, employees: billedEmployees, seats, termDiscount, platformFee, customDiscount, total: seats - termDiscount + platformFee - customDiscount });
+    }
+
+    const onboardingFee = term > 0 ? schedule.onboardingFee.base + employees * schedule.onboardingFee.perEmployee : 0;
+    const recurringTotal = years.reduce((total, year) => total + year.total, 0);
+    const discountTotal = years.reduce((total, year) => total + year.termDiscount + year.customDiscount, 0);
+
+    return { seatTier, years, onboardingFee, recurringTotal, discountTotal, totalInvestment: recurringTotal + onboardingFee };
+};
@@ -0,0 +1,31 @@
+import privacyJson from './privacy.json';
+import { asRecord } from './guards';
+
+// --- PRIVACY NOTICE ---
+// The version and link of the privacy notice that the lead form asks consent to
+// live in privacy.json. The link may be left empty until the notice is published;
+// the lead form stays hidden until then (see LEAD_GATE_MODE in leadGate.ts).
+
+export interface PrivacyConfig {
+    policyVersion: string;
+    policyUrl: string; // Empty until the notice is published
+}
+
+const isHttpsUrl = (value: string): boolean => {
+    try {
+        return new URL(value).protocol === 'https:';
+    } catch {
+        return false;
+    }
+};
+
+// Validates an untrusted privacy config, throwing with the offending field.
+export const parsePrivacyConfig = (raw: unknown): PrivacyConfig => {
+    const fail = (field: string): never => { throw new Error(`Invalid privacy config: "${field}"`); };
+    const { policyVersion, policyUrl } = asRecord(raw);
+    if (typeof policyVersion !== 'string' || !policyVersion.trim()) return fail('policyVersion');
+    if (typeof policyUrl !== 'string' || (policyUrl !== '' && !isHttpsUrl(policyUrl))) return fail('policyUrl');
+    return { policyVersion, policyUrl };
+};
+
+export const PRIVACY_CONFIG: PrivacyConfig = parsePrivacyConfig(privacyJson);
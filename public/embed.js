@@ -0,0 +1,126 @@
+// File: public/embed.js
+// Loader for embedding the calculator on another site. It creates the iframe,
+// sizes it to the calculator's height and relays the postMessage API described in
+// the README. Plain browser script with no dependencies, served as /embed.js.
+(function () {
+  "use strict";
+
+  var MESSAGE_SOURCE = "powershops-roi";
+  var script = document.currentScript;
+  var appUrl = new URL("./", script ? script.src : window.location.href);
+
+  // Mounts a calculator in `target` (an element or a selector). Options:
+  //   inputs   - assumptions to pre-fill, e.g. { employees: 800, term: 3 }
+  //   currency - "USD", "EUR", "GBP", "CAD" or "AUD"; or locale, e.g. "de-DE"
+  //   branding - { primaryColor: "#0057B8", headingColor: "#003A7A", logoText: "Acme" }
+  //   onEvent  - called with (type, payload) for every event
+  function mount(target, options) {
+    var container = typeof target === "string" ? document.querySelector(target) : target;
+    if (!container) throw new Error("PowerShopsRoi: mount target not found");
+    options = options || {};
+
+    var init = { inputs: options.inputs || {}, branding: options.branding || {}, currency: options.currency, locale: options.locale };
+    var handlers = {};
+    var ready = false;
+
+    var src = new URL(appUrl.href);
+    src.searchParams.set("embed", "1");
+    src.searchParams.set("origin", window.location.origin);
+
+    var iframe = document.createElement("iframe");
+    iframe.src = src.href;
+    iframe.title = "PowerShops ROI Calculator";
+    iframe.allow = "clipboard-write";
+    iframe.style.cssText = "display:block;width:100%;height:600px;border:0;overflow:hidden;";
+    iframe.setAttribute("scrolling", "no");
+    container.appendChild(iframe);
+
+    function send(type, payload) {
+      iframe.contentWindow.postMessage({ source: MESSAGE_SOURCE, type: type, payload: payload }, appUrl.origin);
+    }
+
+    // Commands sent before the calculator is ready are folded into its init message.
+    function command(type, payload) {
+      if (ready) {
+        send(type, payload);
+        return;
+      }
+      if (payload.inputs) Object.assign(init.inputs, payload.inputs);
+      if (payload.branding) Object.assign(init.branding, payload.branding);
+      if (payload.currency || payload.locale) {
+        init.currency = payload.currency;
+        init.locale = payload.locale;
+      }
+    }
+
+    function emit(type, payload) {
+      (handlers[type] || []).slice().forEach(function (handler) { handler(payload); });
+      if (options.onEvent) options.onEvent(type, payload);
+      container.dispatchEvent(new CustomEvent("powershops-roi:" + type, { detail: payload }));
+    }
+
+    function onMessage(event) {
+      if (event.source !== iframe.contentWindow || event.origin !== appUrl.origin) return;
+      var message = event.data;
+      if (!message || message.source !== MESSAGE_SOURCE) return;
+      var payload = message.payload || {};
+
+      if (message.type === "ready") {
+        // Sent again if the calculator reloads, so it always gets the latest options.
+        ready = true;
+        send("init", init);
+      } else if (message.type === "resize" && typeof payload.height === "number") {
+        iframe.style.height = Math.max(0, Math.ceil(payload.height)) + "px";
+      }
+      emit(message.type, payload);
+    }
+    window.addEventListener("message", onMessage);
+
+    return {
+      iframe: iframe,
+      on: function (type, handler) {
+        (handlers[type] = handlers[type] || []).push(handler);
+        return function off() {
+          handlers[type] = (handlers[type] || []).filter(function (h) { return h !== handler; });
+        };
+      },
+      setInputs: function (inputs) { command("setInputs", { inputs: inputs || {} }); },
+      setBranding: function (branding) { command("setBranding", { branding: branding || {} }); },
+      setCurrency: function (currency) { command("setCurrency", /^[A-Z]{3}$/.test(currency) ? { currency: currency } : { locale: currency }); },
+      destroy: function () {
+        window.removeEventListener("message", onMessage);
+        iframe.remove();
+      },
+    };
+  }
+
+  // Declarative embeds: <div data-powershops-roi data-currency="EUR" data-employees="800"></div>
+  function mountDeclared() {
+    var elements = document.querySelectorAll("[data-powershops-roi]:not([data-powershops-roi-mounted])");
+    Array.prototype.forEach.call(elements, function (element) {
+      element.setAttribute("data-powershops-roi-mounted", "");
+      var inputs = {};
+      ["employees", "salary", "trainingHours", "turnover", "replaceCost", "term", "discountRate", "costGrowth"].forEach(function (key) {
+        var value = element.dataset[key];
+        if (value !== undefined && value !== "" && isFinite(Number(value))) inputs[key] = Number(value);
+      });
+      mount(element, {
+        inputs: inputs,
+        currency: element.dataset.currency,
+        locale: element.dataset.locale,
+        branding: {
+          primaryColor: element.dataset.primaryColor,
+          headingColor: element.dataset.headingColor,
+          logoText: element.dataset.logoText,
+        },
+      });
+    });
+  }
+
+  window.PowerShopsRoi = { mount: mount };
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", mountDeclared);
+  } else {
+    mountDeclared();
+  }
+})();
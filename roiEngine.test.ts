@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import {
+    breakEvenMonths,
+    calculateRoi,
+    discountedPaybackMonths,
+    internalRateOfReturn,
+    netPresentValue,
+    CashFlowPoint,
+    DEFAULT_DRIVERS,
+    IMMEDIATE_ADOPTION,
+    RoiInputs,
+} from './roiEngine';
+
+// 100 employees at 52,000 (25 / hour) with the default drivers and price list:
+// 260,000 productivity + 40,000 turnover + 25,000 training = 325,000 a year,
+// against 500 per seat = 50,000 a year before term discounts.
+const BASE_INPUTS: RoiInputs = {
+    currency: 'USD',
+    employees: 100,
+    salary: 52000,
+    trainingHours: 40,
+    turnover: 20,
+    replaceCost: 10000,
+    term: 1,
+    discountRate: 8,
+    customDiscount: 0,
+    costGrowth: 3,
+    drivers: DEFAULT_DRIVERS,
+    adoption: IMMEDIATE_ADOPTION,
+    segments: [],
+};
+
+const points = (netCashFlows: number[]): CashFlowPoint[] =>
+    netCashFlows.map((netCashFlow, month) => ({ month, cumulativeBenefit: 0, cumulativeCost: 0, netCashFlow, cumulativeInactionCost: 0 }));
+
+describe('calculateRoi', () => {
+    it('pins the benefits, investment and returns for a one-year term', () => {
+        const result = calculateRoi(BASE_INPUTS);
+
+        expect(result.productivityGains).toBeCloseTo(260000);
+        expect(result.turnoverReductionSavings).toBeCloseTo(40000);
+        expect(result.trainingTimeSavings).toBeCloseTo(25000);
+        expect(result.totalBenefit).toBeCloseTo(325000);
+        expect(result.totalInvestment).toBeCloseTo(50000);
+        expect(result.netBenefit).toBeCloseTo(275000);
+        expect(result.totalRoi).toBeCloseTo(550);
+        expect(result.segmentBenefits).toEqual([]);
+
+        expect(result.yearlyCashFlows).toEqual([-50000, 325000]);
+        expect(result.npv).toBeCloseTo(-50000 + 325000 / 1.08);
+        expect(result.irr).toBeCloseTo(550, 3);
+        expect(result.discountedPaybackMonths).toBeCloseTo((50000 / (325000 / 1.08)) * 12);
+        expect(result.monthsToBreakEven).toBeCloseTo(1 + (50000 - 325000 / 12) / (325000 / 12));
+    });
+
+    it('bills each contract year in advance, with the term discounts', () => {
+        const result = calculateRoi({ ...BASE_INPUTS, term: 3 });
+
+        expect(result.costBreakdown.years.map(year => year.total)).toEqual([50000, 47500, 45000]);
+        expect(result.cashFlowData[0].cumulativeCost).toBeCloseTo(50000);
+        expect(result.cashFlowData[11].cumulativeCost).toBeCloseTo(50000);
+        expect(result.cashFlowData[12].cumulativeCost).toBeCloseTo(97500);
+        expect(result.cashFlowData[24].cumulativeCost).toBeCloseTo(142500);
+        expect(result.cashFlowData[36].cumulativeCost).toBeCloseTo(142500);
+        expect(result.yearlyCashFlows).toEqual([-50000, 277500, 280000, 325000]);
+        expect(result.cashFlowData).toHaveLength(37);
+        expect(result.cashFlowData[36].cumulativeBenefit).toBeCloseTo(975000);
+    });
+
+    it('scales each contract year by a phased adoption curve', () => {
+        const result = calculateRoi({ ...BASE_INPUTS, term: 2, adoption: { kind: 'yearly', yearlyPercent: [50, 100] } });
+
+        expect(result.productivityGains).toBeCloseTo(390000);
+        expect(result.totalBenefit).toBeCloseTo(162500 + 325000);
+        expect(result.cashFlowData[12].cumulativeBenefit).toBeCloseTo(162500);
+        expect(result.yearlyCashFlows).toEqual([-50000, 162500 - 47500, 325000]);
+    });
+
+    it('starts billing and benefits for each segment from its rollout year', () => {
+        const segment = { id: 'frontline', name: 'Frontline', employees: 50, salary: 52000, turnover: 20, replaceCost: 10000, rolloutYear: 1 };
+        const result = calculateRoi({
+            ...BASE_INPUTS,
+            term: 2,
+            segments: [segment, { ...segment, id: 'office', name: 'Office', rolloutYear: 2 }],
+        });
+
+        expect(result.costBreakdown.years.map(year => year.employees)).toEqual([50, 100]);
+        expect(result.costBreakdown.years.map(year => year.total)).toEqual([25000, 47500]);
+        expect(result.segmentBenefits.map(benefit => benefit.totalBenefit)).toEqual([
+            expect.closeTo(325000),
+            expect.closeTo(162500),
+        ]);
+        expect(result.totalBenefit).toBeCloseTo(487500);
+    });
+
+    it('projects the status-quo cost over the term with annual growth', () => {
+        const result = calculateRoi({ ...BASE_INPUTS, term: 3 });
+
+        expect(result.statusQuo.annualTurnoverCost).toBeCloseTo(200000);
+        expect(result.statusQuo.annualTrainingCost).toBeCloseTo(100000);
+        expect(result.statusQuo.annualTotal).toBeCloseTo(300000);
+        expect(result.statusQuo.yearlyTotals).toEqual([expect.closeTo(300000), expect.closeTo(309000), expect.closeTo(318270)]);
+        expect(result.statusQuo.totalOverTerm).toBeCloseTo(927270);
+        expect(result.cashFlowData[12].cumulativeInactionCost).toBeCloseTo(300000);
+        expect(result.cashFlowData[36].cumulativeInactionCost).toBeCloseTo(927270);
+    });
+
+    it('counts every segment in the status quo from signing', () => {
+        const segment = { id: 'frontline', name: 'Frontline', employees: 50, salary: 52000, turnover: 20, replaceCost: 10000, rolloutYear: 1 };
+        const result = calculateRoi({ ...BASE_INPUTS, segments: [segment, { ...segment, id: 'office', rolloutYear: 2 }] });
+
+        expect(result.statusQuo.annualTotal).toBeCloseTo(300000);
+    });
+});
+
+describe('breakEvenMonths', () => {
+    it('interpolates the last crossing into positive territory', () => {
+        expect(breakEvenMonths(points([-10, 5, -2, 6]))).toBeCloseTo(2.25);
+    });
+
+    it('returns 0 when the position is never negative or ends underwater', () => {
+        expect(breakEvenMonths(points([0, 5, 10]))).toBe(0);
+        expect(breakEvenMonths(points([-10, 5, -2]))).toBe(0);
+    });
+});
+
+describe('discounted cash flow', () => {
+    it('discounts each year back to signing', () => {
+        expect(netPresentValue(0.1, [-100, 110])).toBeCloseTo(0);
+        expect(netPresentValue(0, [-100, 60, 60])).toBeCloseTo(20);
+    });
+
+    it('solves the internal rate of return', () => {
+        expect(internalRateOfReturn([-100, 110])).toBeCloseTo(0.1, 6);
+        expect(internalRateOfReturn([-100, 60, 60])).toBeCloseTo(0.1307, 4);
+    });
+
+    it('returns a null IRR when the flows never change sign', () => {
+        expect(internalRateOfReturn([100, 50])).toBeNull();
+        expect(internalRateOfReturn([-100, -50])).toBeNull();
+    });
+
+    it('finds the discounted payback within the crossing year', () => {
+        expect(discountedPaybackMonths(0, [-100, 50, 100])).toBeCloseTo(18);
+        expect(discountedPaybackMonths(0.1, [-100, 220])).toBeCloseTo((100 / 200) * 12);
+        expect(discountedPaybackMonths(0.1, [-100, 50])).toBe(0);
+    });
+});
@@ -0,0 +1,414 @@
+import { CostBreakdown, CurrencyCode, DEFAULT_PRICING_SCHEDULE, PricingSchedule, convertPricingSchedule, priceSubscription } from './pricing';
+
+// --- ROI ENGINE ---
+// Pure, framework-free ROI math. The calculator UI, the PDF report and the AI
+// prompt all read from the same `RoiResult` so the numbers can never drift apart.
+
+// The "hidden" drivers behind the benefit streams. These are editable through the
+// Advanced Assumptions panel and ship with named presets (see driverPresets.ts).
+export interface BusinessDrivers {
+    productivityBoost: number; // Fraction of salary recovered as productivity (0.05 = 5%)
+    turnoverReduction: number; // Fraction of annual turnover avoided (0.20 = 20%)
+    trainingEfficiency: number; // Fraction of current training hours saved (0.25 = 25%)
+    maxTrainingHoursSaved: number; // Cap on training hours saved per employee per year
+    workingHoursPerYear: number;
+}
+
+// How quickly the full benefit is reached after rollout. Applied to every benefit
+// stream: either a flat percentage per contract year, or a month-by-month S-curve.
+export type AdoptionCurve =
+    | { kind: 'yearly'; yearlyPercent: number[] } // Year N uses entry N-1; the last entry repeats
+    | { kind: 'sCurve'; monthsToFullAdoption: number };
+
+// A group of employees with its own pay and churn, e.g. frontline or office staff.
+export interface EmployeeSegment {
+    id: string; // Identifies the segment while it is edited; not shared or exported
+    name: string;
+    employees: number;
+    salary: number;
+    turnover: number; // Annual turnover rate, in percent (0-100)
+    replaceCost: number;
+    rolloutYear: number; // Contract year the segment goes live; seats are billed from then
+}
+
+// Money inputs (salary, replaceCost) are expressed in `currency`; prices from the
+// pricing schedule are converted into it before any math runs. When `segments` is
+// empty the company is one pool described by employees, salary, turnover and
+// replaceCost; otherwise the segments replace those four fields, which then hold
+// company-wide totals (see `summarizeSegments`).
+export interface RoiInputs {
+    currency: CurrencyCode;
+    employees: number;
+    salary: number;
+    trainingHours: number;
+    turnover: number; // Annual turnover rate, in percent (0-100)
+    replaceCost: number;
+    term: number; // Subscription term, in years
+    discountRate: number; // Annual discount rate for NPV, in percent (0-100)
+    customDiscount: number; // Negotiated discount off the subscription, in percent
+    costGrowth: number; // Annual growth of status-quo costs, in percent
+    drivers: BusinessDrivers;
+    adoption: AdoptionCurve;
+    segments: EmployeeSegment[];
+}
+
+// One point per month, from signing (month 0) to the end of the term.
+export interface CashFlowPoint {
+    month: number;
+    cumulativeBenefit: number;
+    cumulativeCost: number;
+    netCashFlow: number;
+    cumulativeInactionCost: number; // Status-quo cost had nothing changed
+}
+
+// A segment's share of the benefits over the term.
+export interface SegmentBenefit {
+    name: string;
+    employees: number;
+    rolloutYear: number;
+    productivityGains: number;
+    turnoverReductionSavings: number;
+    trainingTimeSavings: number;
+    totalBenefit: number;
+}
+
+// What turnover and training cost the company without PowerShops. Every segment
+// counts from signing, whatever its rollout year.
+export interface StatusQuoCost {
+    annualTurnoverCost: number; // Leavers × replacement cost, today
+    annualTrainingCost: number; // Paid training hours, today
+    annualTotal: number;
+    yearlyTotals: number[]; // Per contract year, grown by `costGrowth`
+    totalOverTerm: number;
+}
+
+export interface RoiResult {
+    powerShopsAnnualCost: number; // Average recurring cost per year, excluding onboarding
+    totalInvestment: number;
+    costBreakdown: CostBreakdown;
+    productivityGains: number;
+    turnoverReductionSavings: number;
+    trainingTimeSavings: number;
+    totalBenefit: number;
+    segmentBenefits: SegmentBenefit[]; // One entry per input segment; empty for a single pool
+    netBenefit: number;
+    totalRoi: number;
+    monthsToBreakEven: number;
+    cashFlowData: CashFlowPoint[];
+    // Net cash flow per year, index 0 = signing. See `yearlyNetCashFlows` for timing.
+    yearlyCashFlows: number[];
+    npv: number;
+    irr: number | null; // Percent; null when the flows have no sign change
+    discountedPaybackMonths: number; // 0 when the investment is never paid back
+    statusQuo: StatusQuoCost;
+}
+
+// Business logic assumptions used when no preset or override is chosen
+export const DEFAULT_DRIVERS: BusinessDrivers = {
+    productivityBoost: 0.05, // 5%
+    turnoverReduction: 0.20, // 20%
+    trainingEfficiency: 0.25, // 25%
+    maxTrainingHoursSaved: 10,
+    workingHoursPerYear: 2080, // 52 weeks * 40 hours
+};
+
+export const MAX_TERM_YEARS = 5;
+
+export const DEFAULT_COST_GROWTH = 3;
+
+export const MAX_SEGMENTS = 8;
+export const MAX_SEGMENT_NAME_LENGTH = 40;
+
+let segmentCount = 0;
+
+// Ids only need to be unique within the page, so a counter will do.
+export const newSegmentId = (): string => `segment-${++segmentCount}`;
+
+export const IMMEDIATE_ADOPTION: AdoptionCurve = { kind: 'yearly', yearlyPercent: [100] };
+export const DEFAULT_ADOPTION: AdoptionCurve = { kind: 'sCurve', monthsToFullAdoption: 12 };
+
+// Training hours saved per employee per year: a share of the prospect's current
+// training hours, capped so very training-heavy inputs don't dominate the benefit.
+export const trainingHoursSavedPerEmployee = (trainingHours: number, drivers: BusinessDrivers): number =>
+    Math.max(0, Math.min(trainingHours * drivers.trainingEfficiency, drivers.maxTrainingHoursSaved));
+
+// --- SEGMENTS ---
+
+// The groups the model runs over: the input segments, or the whole company as one.
+export const segmentsOf = (inputs: RoiInputs): EmployeeSegment[] =>
+    inputs.segments.length > 0
+        ? inputs.segments
+        : [{ id: 'all-employees', name: 'All employees', employees: inputs.employees, salary: inputs.salary, turnover: inputs.turnover, replaceCost: inputs.replaceCost, rolloutYear: 1 }];
+
+// Company-wide equivalents of a set of segments: total headcount, headcount-weighted
+// salary and turnover, and the replacement cost averaged over expected leavers.
+export const summarizeSegments = (segments: EmployeeSegment[]): Pick<RoiInputs, 'employees' | 'salary' | 'turnover' | 'replaceCost'> => {
+    const employees = segments.reduce((total, segment) => total + segment.employees, 0);
+    const leavers = segments.reduce((total, segment) => total + segment.employees * segment.turnover, 0);
+    const weighted = (value: (segment: EmployeeSegment) => number, weight: (segment: EmployeeSegment) => number, totalWeight: number) =>
+        totalWeight > 0 ? segments.reduce((total, segment) => total + value(segment) * weight(segment), 0) / totalWeight : 0;
+    return {
+        employees,
+        salary: weighted(segment => segment.salary, segment => segment.employees, employees),
+        turnover: weighted(segment => segment.turnover, segment => segment.employees, employees),
+        replaceCost: leavers > 0
+            ? weighted(segment => segment.replaceCost, segment => segment.employees * segment.turnover, leavers)
+            : weighted(segment => segment.replaceCost, segment => segment.employees, employees),
+    };
+};
+
+// --- STATUS QUO ---
+
+export const statusQuoCost = (inputs: RoiInputs): StatusQuoCost => {
+    const { trainingHours, term, costGrowth, drivers } = inputs;
+    const segments = segmentsOf(inputs);
+    const annualTurnoverCost = segments.reduce((total, segment) => total + segment.employees * (segment.turnover / 100) * segment.replaceCost, 0);
+    const annualTrainingCost = drivers.workingHoursPerYear > 0
+        ? segments.reduce((total, segment) => total + segment.employees * trainingHours * (segment.salary / drivers.workingHoursPerYear), 0)
+        : 0;
+    const annualTotal = annualTurnoverCost + annualTrainingCost;
+    const yearlyTotals = Array.from({ length: term }, (_, year) => annualTotal * Math.pow(1 + costGrowth / 100, year));
+    return {
+        annualTurnoverCost,
+        annualTrainingCost,
+        annualTotal,
+        yearlyTotals,
+        totalOverTerm: yearlyTotals.reduce((total, cost) => total + cost, 0),
+    };
+};
+
+// --- ADOPTION CURVE ---
+
+// Fraction (0-1) of the full annual benefit realized during a month (1-based).
+// The S-curve is a logistic running from 5% to 95% over `monthsToFullAdoption`,
+// rescaled to 0-100% and sampled at mid-month.
+export const adoptionForMonth = (curve: AdoptionCurve, month: number): number => {
+    if (curve.kind === 'yearly') {
+        const { yearlyPercent } = curve;
+        if (yearlyPercent.length === 0) return 1;
+        const yearIndex = Math.min(Math.ceil(month / 12), yearlyPercent.length) - 1;
+        return Math.max(0, Math.min(1, yearlyPercent[yearIndex] / 100));
+    }
+
+    const fullAt = curve.monthsToFullAdoption;
+    const t = month - 0.5;
+    if (fullAt <= 0 || t >= fullAt) return 1;
+    const steepness = (2 * Math.log(19)) / fullAt;
+    const logistic = 1 / (1 + Math.exp(-steepness * (t - fullAt / 2)));
+    return (logistic - 0.05) / 0.9;
+};
+
+export const describeAdoption = (curve: AdoptionCurve, term: number): string => {
+    if (curve.kind === 'sCurve') {
+        return `S-curve, full adoption by month ${curve.monthsToFullAdoption}`;
+    }
+    const percents = Array.from({ length: term }, (_, i) => Math.round(adoptionForMonth(curve, i * 12 + 1) * 100));
+    if (percents.every(percent => percent === 100)) {
+        return 'Immediate (100% from day one)';
+    }
+    return percents.map((percent, i) => `Y${i + 1} ${percent}%`).join(', ');
+};
+
+// The point after which cumulative net cash flow stays non-negative for the rest
+// of the term, interpolated within the month. Annual billing in advance can push
+// the position back below zero at a renewal, so the last crossing is used rather
+// than the first. Returns 0 if the term ends underwater.
+export const breakEvenMonths = (cashFlowData: CashFlowPoint[]): number => {
+    let lastNegative = -1;
+    cashFlowData.forEach((point, index) => {
+        if (point.netCashFlow < 0) lastNegative = index;
+    });
+    if (lastNegative === -1 || lastNegative === cashFlowData.length - 1) return 0;
+
+    const before = cashFlowData[lastNegative];
+    const after = cashFlowData[lastNegative + 1];
+    return before.month + (-before.netCashFlow / (after.netCashFlow - before.netCashFlow)) * (after.month - before.month);
+};
+
+// --- DISCOUNTED CASH FLOW ---
+// Timing convention: the subscription is billed annually in advance and the
+// benefits for a year are realized at its end. Year 0 is therefore the first
+// payment, and the final year carries benefit only.
+export const yearlyNetCashFlows = (annualBenefits: number[], annualCosts: number[]): number[] => {
+    const flows: number[] = [];
+    for (let year = 0; year <= annualCosts.length; year++) {
+        const benefit = year > 0 ? annualBenefits[year - 1] ?? 0 : 0;
+        const cost = annualCosts[year] ?? 0;
+        flows.push(benefit - cost);
+    }
+    return flows;
+};
+
+// `rate` is a decimal (0.08 = 8%)
+export const netPresentValue = (rate: number, flows: number[]): number =>
+    flows.reduce((total, flow, year) => total + flow / Math.pow(1 + rate, year), 0);
+
+// Solved by bisection, which is slower than Newton's method but cannot diverge.
+// Returns a decimal rate, or null when NPV never changes sign in the search range.
+export const internalRateOfReturn = (flows: number[]): number | null => {
+    let low = -0.99;
+    let high = 1000;
+    let npvLow = netPresentValue(low, flows);
+    const npvHigh = netPresentValue(high, flows);
+    if (npvLow * npvHigh > 0) return null;
+
+    for (let i = 0; i < 200; i++) {
+        const mid = (low + high) / 2;
+        const npvMid = netPresentValue(mid, flows);
+        if (Math.abs(npvMid) < 1e-7) return mid;
+        if (npvLow * npvMid < 0) {
+            high = mid;
+        } else {
+            low = mid;
+            npvLow = npvMid;
+        }
+    }
+    return (low + high) / 2;
+};
+
+// Months until cumulative discounted cash flow turns positive, interpolated within
+// the crossing year as if that year's flow accrued evenly. Returns 0 if it never
+// does within the term.
+export const discountedPaybackMonths = (rate: number, flows: number[]): number => {
+    let cumulative = 0;
+    for (let year = 0; year < flows.length; year++) {
+        const discounted = flows[year] / Math.pow(1 + rate, year);
+        const previous = cumulative;
+        cumulative += discounted;
+        if (year > 0 && previous < 0 && cumulative >= 0) {
+            return ((year - 1) + (-previous / discounted)) * 12;
+        }
+    }
+    return 0;
+};
+
+export const calculateRoi = (inputs: RoiInputs, pricing: PricingSchedule = DEFAULT_PRICING_SCHEDULE): RoiResult => {
+    const { currency, trainingHours, term, discountRate, customDiscount, drivers, adoption } = inputs;
+    const segments = segmentsOf(inputs);
+    const employees = segments.reduce((total, segment) => total + segment.employees, 0);
+
+    // Seats are billed from the contract year each segment goes live.
+    const seatsByYear = Array.from({ length: term }, (_, i) =>
+        segments.reduce((total, segment) => total + (segment.rolloutYear <= i + 1 ? segment.employees : 0), 0));
+    const costBreakdown = priceSubscription(employees, term, customDiscount, convertPricingSchedule(pricing, currency), seatsByYear);
+    const { totalInvestment } = costBreakdown;
+
+    // Cash paid at the start of each contract year; onboarding is billed with year 1.
+    const annualCosts = costBreakdown.years.map((year, i) => year.total + (i === 0 ? costBreakdown.onboardingFee : 0));
+
+    // The displayed annual cost is the average recurring cost over the term.
+    const powerShopsAnnualCost = term > 0 ? costBreakdown.recurringTotal / term : 0;
+
+    const hoursSaved = trainingHoursSavedPerEmployee(trainingHours, drivers);
+    const totalMonths = term * 12;
+
+    // Each segment follows the adoption curve from its own rollout month.
+    const segmentModels = segments.map(segment => {
+        const hourlyRate = drivers.workingHoursPerYear > 0 ? segment.salary / drivers.workingHoursPerYear : 0;
+        const annualProductivityGains = segment.employees * segment.salary * drivers.productivityBoost;
+        const annualTurnoverSavings = segment.employees * (segment.turnover / 100) * drivers.turnoverReduction * segment.replaceCost;
+        const annualTrainingSavings = segment.employees * hoursSaved * hourlyRate;
+
+        const rolloutMonth = (segment.rolloutYear - 1) * 12;
+        const monthlyAdoption: number[] = [];
+        for (let month = 1; month <= totalMonths; month++) {
+            monthlyAdoption.push(month > rolloutMonth ? adoptionForMonth(adoption, month - rolloutMonth) : 0);
+        }
+
+        // Adoption-weighted years of benefit, per contract year and over the whole term
+        const adoptedYearsByYear: number[] = [];
+        for (let year = 0; year < term; year++) {
+            adoptedYearsByYear.push(monthlyAdoption.slice(year * 12, (year + 1) * 12).reduce((total, a) => total + a, 0) / 12);
+        }
+        const adoptedYears = adoptedYearsByYear.reduce((total, a) => total + a, 0);
+
+        return {
+            segment,
+            // Full, steady-state benefit once adoption reaches 100%
+            annualFullBenefit: annualProductivityGains + annualTurnoverSavings + annualTrainingSavings,
+            monthlyAdoption,
+            adoptedYearsByYear,
+            productivityGains: annualProductivityGains * adoptedYears,
+            turnoverReductionSavings: annualTurnoverSavings * adoptedYears,
+            trainingTimeSavings: annualTrainingSavings * adoptedYears,
+        };
+    });
+    const sumOver = (value: (model: typeof segmentModels[number]) => number) =>
+        segmentModels.reduce((total, model) => total + value(model), 0);
+
+    const productivityGains = sumOver(model => model.productivityGains);
+    const turnoverReductionSavings = sumOver(model => model.turnoverReductionSavings);
+    const trainingTimeSavings = sumOver(model => model.trainingTimeSavings);
+
+    const totalBenefit = productivityGains + turnoverReductionSavings + trainingTimeSavings;
+    const netBenefit = totalBenefit - totalInvestment;
+    const totalRoi = totalInvestment > 0 ? (netBenefit / totalInvestment) * 100 : 0;
+
+    const segmentBenefits: SegmentBenefit[] = inputs.segments.length === 0 ? [] : segmentModels.map(model => ({
+        name: model.segment.name,
+        employees: model.segment.employees,
+        rolloutYear: model.segment.rolloutYear,
+        productivityGains: model.productivityGains,
+        turnoverReductionSavings: model.turnoverReductionSavings,
+        trainingTimeSavings: model.trainingTimeSavings,
+        totalBenefit: model.productivityGains + model.turnoverReductionSavings + model.trainingTimeSavings,
+    }));
+
+    const statusQuo = statusQuoCost(inputs);
+
+    // Benefits and status-quo costs accrue monthly; each year's subscription is
+    // billed at its start.
+    const cashFlowData: CashFlowPoint[] = [];
+    let cumulativeBenefit = 0;
+    let cumulativeCost = 0;
+    let cumulativeInactionCost = 0;
+    for (let month = 0; month <= totalMonths; month++) {
+        if (month > 0) {
+            cumulativeBenefit += sumOver(model => (model.annualFullBenefit / 12) * model.monthlyAdoption[month - 1]);
+            cumulativeInactionCost += statusQuo.yearlyTotals[Math.ceil(month / 12) - 1] / 12;
+        }
+        if (month < totalMonths && month % 12 === 0) {
+            cumulativeCost += annualCosts[month / 12];
+        }
+
+        cashFlowData.push({
+            month,
+            cumulativeBenefit,
+            cumulativeCost,
+            netCashFlow: cumulativeBenefit - cumulativeCost,
+            cumulativeInactionCost,
+        });
+    }
+
+    const monthsToBreakEven = breakEvenMonths(cashFlowData);
+
+    const rate = discountRate / 100;
+    const annualBenefits = Array.from({ length: term }, (_, year) => sumOver(model => model.annualFullBenefit * model.adoptedYearsByYear[year]));
+    const yearlyCashFlows = yearlyNetCashFlows(annualBenefits, annualCosts);
+    const npv = netPresentValue(rate, yearlyCashFlows);
+    const irrRate = internalRateOfReturn(yearlyCashFlows);
+
+    return {
+        powerShopsAnnualCost,
+        totalInvestment,
+        costBreakdown,
+        productivityGains,
+        turnoverReductionSavings,
+        trainingTimeSavings,
+        totalBenefit,
+        segmentBenefits,
+        netBenefit,
+        totalRoi,
+        monthsToBreakEven,
+        cashFlowData,
+        yearlyCashFlows,
+        npv,
+        irr: irrRate === null ? null : irrRate * 100,
+        discountedPaybackMonths: discountedPaybackMonths(rate, yearlyCashFlows),
+        statusQuo,
+    };
+};
+
+// Share of the total benefit contributed by productivity gains, in percent.
+export const productivityShare = (result: RoiResult): number =>
+    result.totalBenefit > 0 ? Math.round(result.productivityGains / result.totalBenefit * 100) : 0;
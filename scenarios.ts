@@ -0,0 +1,57 @@
+import { calculateRoi, RoiInputs, RoiResult } from './roiEngine';
+
+// --- SCENARIO COMPARISON ---
+// A scenario is a named snapshot of the calculator inputs, e.g. "Pilot: 1 dept, 1 year".
+// Results are always recomputed from the inputs so they follow engine changes.
+
+export const MAX_SCENARIOS = 4;
+
+// One line colour per scenario slot, in save order.
+export const SCENARIO_COLORS = ['#ED2F48', '#58585B', '#AF222A', '#A3A3A6'];
+
+export interface Scenario {
+    id: string;
+    name: string;
+    inputs: RoiInputs;
+}
+
+export interface ScenarioResult extends Scenario {
+    result: RoiResult;
+    color: string;
+}
+
+// One row per month; each scenario's cumulative net cash flow is keyed by its id.
+export type ComparisonChartRow = { month: number } & Record<string, number | undefined>;
+
+export const createScenario = (name: string, inputs: RoiInputs): Scenario => ({
+    id: `scenario-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name: name.trim() || defaultScenarioName(inputs),
+    inputs,
+});
+
+export const defaultScenarioName = (inputs: RoiInputs): string =>
+    `${inputs.employees} employees, ${inputs.term}-year term`;
+
+export const evaluateScenarios = (scenarios: Scenario[]): ScenarioResult[] =>
+    scenarios.map((scenario, index) => ({
+        ...scenario,
+        result: calculateRoi(scenario.inputs),
+        color: SCENARIO_COLORS[index % SCENARIO_COLORS.length],
+    }));
+
+export const longestTerm = (scenarios: Scenario[]): number =>
+    Math.max(0, ...scenarios.map(scenario => scenario.inputs.term));
+
+// Scenarios can have different terms, so the chart spans the longest one and
+// shorter scenarios simply stop drawing after their final month.
+export const buildComparisonChartData = (scenarios: ScenarioResult[]): ComparisonChartRow[] => {
+    const rows: ComparisonChartRow[] = [];
+    for (let month = 0; month <= longestTerm(scenarios) * 12; month++) {
+        const row: ComparisonChartRow = { month };
+        scenarios.forEach(scenario => {
+            row[scenario.id] = scenario.result.cashFlowData[month]?.netCashFlow;
+        });
+        rows.push(row);
+    }
+    return rows;
+};
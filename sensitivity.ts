@@ -0,0 +1,196 @@
+import { calculateRoi, summarizeSegments, BusinessDrivers, EmployeeSegment, RoiInputs } from './roiEngine';
+
+// --- SENSITIVITY ANALYSIS ---
+// Every figure in the main report is a point estimate. This module lets the
+// uncertain inputs and drivers vary around their current values, either one at a
+// time (tornado chart) or all together (Monte Carlo simulation).
+
+export type SensitivityKey =
+    | 'employees'
+    | 'salary'
+    | 'trainingHours'
+    | 'turnover'
+    | 'replaceCost'
+    | 'productivityBoost'
+    | 'turnoverReduction'
+    | 'trainingEfficiency';
+
+interface SensitivityVariable {
+    key: SensitivityKey;
+    label: string;
+    defaultSpread: number; // +/- percent of the current value
+}
+
+export const SENSITIVITY_VARIABLES: SensitivityVariable[] = [
+    { key: 'salary', label: 'Average Salary', defaultSpread: 10 },
+    { key: 'turnover', label: 'Turnover Rate', defaultSpread: 25 },
+    { key: 'replaceCost', label: 'Replacement Cost', defaultSpread: 20 },
+    { key: 'trainingHours', label: 'Training Hours', defaultSpread: 20 },
+    { key: 'productivityBoost', label: 'Productivity Boost', defaultSpread: 40 },
+    { key: 'turnoverReduction', label: 'Turnover Reduction', defaultSpread: 40 },
+    { key: 'trainingEfficiency', label: 'Training Efficiency Gain', defaultSpread: 30 },
+    { key: 'employees', label: 'Number of Employees', defaultSpread: 0 },
+];
+
+export type SensitivitySpreads = Record<SensitivityKey, number>;
+
+export const DEFAULT_SPREADS = Object.fromEntries(
+    SENSITIVITY_VARIABLES.map(variable => [variable.key, variable.defaultSpread])
+) as SensitivitySpreads;
+
+const DRIVER_KEYS: SensitivityKey[] = ['productivityBoost', 'turnoverReduction', 'trainingEfficiency'];
+
+const isDriverKey = (key: SensitivityKey): key is SensitivityKey & keyof BusinessDrivers => DRIVER_KEYS.includes(key);
+
+const getValue = (inputs: RoiInputs, key: SensitivityKey): number =>
+    isDriverKey(key) ? inputs.drivers[key] : inputs[key as Exclude<SensitivityKey, keyof BusinessDrivers>];
+
+const SEGMENT_KEYS: SensitivityKey[] = ['employees', 'salary', 'turnover', 'replaceCost'];
+
+const isSegmentKey = (key: SensitivityKey): key is SensitivityKey & keyof EmployeeSegment => SEGMENT_KEYS.includes(key);
+
+// Percent inputs are clamped to stay meaningful; headcounts stay whole.
+const scaleInput = (key: SensitivityKey, value: number): number => {
+    const clamped = key === 'turnover' ? Math.min(100, Math.max(0, value)) : Math.max(0, value);
+    return key === 'employees' ? Math.round(clamped) : clamped;
+};
+
+// Scales one input by `factor`. With segments, every segment's value is scaled.
+const withFactor = (inputs: RoiInputs, key: SensitivityKey, factor: number): RoiInputs => {
+    if (isDriverKey(key)) {
+        return { ...inputs, drivers: { ...inputs.drivers, [key]: Math.max(0, inputs.drivers[key] * factor) } };
+    }
+    if (inputs.segments.length > 0 && isSegmentKey(key)) {
+        const segments = inputs.segments.map(segment => ({ ...segment, [key]: scaleInput(key, segment[key] * factor) }));
+        return { ...inputs, segments, ...summarizeSegments(segments) };
+    }
+    return { ...inputs, [key]: scaleInput(key, getValue(inputs, key) * factor) };
+};
+
+// --- TORNADO ---
+
+export interface TornadoBar {
+    key: SensitivityKey;
+    label: string;
+    lowRoi: number;
+    highRoi: number;
+    swing: number; // Absolute ROI difference between the low and high case, in points
+}
+
+// One-at-a-time sensitivity: each variable moves to the edge of its range while
+// everything else stays at the current value. Sorted by impact, largest first.
+export const buildTornado = (inputs: RoiInputs, spreads: SensitivitySpreads): TornadoBar[] =>
+    SENSITIVITY_VARIABLES
+        .filter(variable => spreads[variable.key] > 0)
+        .map(variable => {
+            const spread = spreads[variable.key] / 100;
+            const lowRoi = calculateRoi(withFactor(inputs, variable.key, 1 - spread)).totalRoi;
+            const highRoi = calculateRoi(withFactor(inputs, variable.key, 1 + spread)).totalRoi;
+            return { key: variable.key, label: variable.label, lowRoi, highRoi, swing: Math.abs(highRoi - lowRoi) };
+        })
+        .sort((a, b) => b.swing - a.swing);
+
+// --- MONTE CARLO ---
+
+export interface CashFlowBand {
+    month: number;
+    p10: number;
+    p50: number;
+    p90: number;
+}
+
+export interface MonteCarloResult {
+    inputs: RoiInputs;
+    trials: number;
+    probabilityPositiveRoi: number; // 0-1
+    roiP10: number;
+    roiP50: number;
+    roiP90: number;
+    // Percentiles of cumulative benefit per month, to overlay on the cash-flow chart
+    benefitBands: CashFlowBand[];
+}
+
+export interface MonteCarloOptions {
+    trials?: number;
+    seed?: number;
+    signal?: AbortSignal;
+    onProgress?: (completedTrials: number) => void;
+}
+
+export const DEFAULT_TRIALS = 2000;
+const TRIALS_PER_CHUNK = 100;
+
+// Small seeded PRNG (mulberry32) so the same inputs always produce the same bands.
+const createRandom = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Triangular distribution on [1 - spread, 1 + spread] peaking at 1 (the current value).
+const sampleFactor = (random: () => number, spread: number): number => {
+    if (spread <= 0) return 1;
+    const u = random();
+    const offset = u < 0.5 ? Math.sqrt(2 * u) - 1 : 1 - Math.sqrt(2 * (1 - u));
+    return 1 + offset * spread;
+};
+
+const percentile = (sorted: number[], p: number): number => {
+    if (sorted.length === 0) return 0;
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+    return sorted[index];
+};
+
+const yieldToBrowser = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Runs in small chunks and yields between them so the page stays responsive.
+// Rejects with an AbortError DOMException if `signal` is aborted.
+export const runMonteCarlo = async (
+    inputs: RoiInputs,
+    spreads: SensitivitySpreads,
+    { trials = DEFAULT_TRIALS, seed = 1, signal, onProgress }: MonteCarloOptions = {}
+): Promise<MonteCarloResult> => {
+    const random = createRandom(seed);
+    const months = inputs.term * 12 + 1;
+    const rois: number[] = [];
+    const benefitsByMonth: number[][] = Array.from({ length: months }, () => []);
+
+    for (let start = 0; start < trials; start += TRIALS_PER_CHUNK) {
+        if (signal?.aborted) throw new DOMException('Simulation cancelled', 'AbortError');
+
+        const end = Math.min(trials, start + TRIALS_PER_CHUNK);
+        for (let trial = start; trial < end; trial++) {
+            const sampled = SENSITIVITY_VARIABLES.reduce(
+                (acc, variable) => withFactor(acc, variable.key, sampleFactor(random, spreads[variable.key] / 100)),
+                inputs
+            );
+            const result = calculateRoi(sampled);
+            rois.push(result.totalRoi);
+            result.cashFlowData.forEach((point, month) => benefitsByMonth[month].push(point.cumulativeBenefit));
+        }
+
+        onProgress?.(end);
+        await yieldToBrowser();
+    }
+
+    const sortedRois = [...rois].sort((a, b) => a - b);
+    const benefitBands = benefitsByMonth.map((values, month) => {
+        const sorted = values.sort((a, b) => a - b);
+        return { month, p10: percentile(sorted, 0.1), p50: percentile(sorted, 0.5), p90: percentile(sorted, 0.9) };
+    });
+
+    return {
+        inputs,
+        trials,
+        probabilityPositiveRoi: rois.length > 0 ? rois.filter(roi => roi > 0).length / rois.length : 0,
+        roiP10: percentile(sortedRois, 0.1),
+        roiP50: percentile(sortedRois, 0.5),
+        roiP90: percentile(sortedRois, 0.9),
+        benefitBands,
+    };
+};
@@ -0,0 +1,27 @@
+// --- BROWSER SESSION ID ---
+// A random id for the current tab session, sent to the Netlify functions so they can
+// rate-limit and correlate requests per visitor. It carries no personal data.
+
+const SESSION_ID_KEY = 'powershops-roi-session';
+
+let cachedSessionId: string | null = null;
+
+const randomId = (): string =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+export const getSessionId = (): string => {
+    if (cachedSessionId) return cachedSessionId;
+    try {
+        cachedSessionId = sessionStorage.getItem(SESSION_ID_KEY);
+        if (!cachedSessionId) {
+            cachedSessionId = randomId();
+            sessionStorage.setItem(SESSION_ID_KEY, cachedSessionId);
+        }
+    } catch {
+        // Storage can be unavailable (private mode, embedded frames); keep the id for this page only.
+        cachedSessionId = cachedSessionId ?? randomId();
+    }
+    return cachedSessionId;
+};
@@ -0,0 +1,23 @@
+// --- LEAD ACTIVITY TRACKING ---
+// Tells sales what the prospect actually modeled. Each event carries the scenario as an
+// insights request and is linked to the lead form submission by the session id.
+
+import { InsightsRequest } from './insights';
+import { getSessionId } from './session';
+
+export type ActivityEvent = 'insights_generated' | 'report_downloaded' | 'workbook_downloaded' | 'demo_requested';
+
+const TRACK_ACTIVITY_URL = '/.netlify/functions/track-activity';
+
+// Fire-and-forget: tracking must never block or break the calculator. `keepalive` lets
+// the request finish when the event is followed by navigation (the demo mailto link).
+export const trackActivity = (event: ActivityEvent, scenario: InsightsRequest): void => {
+    // @ts-ignore - aistudio is a global injected by the environment
+    if (window.aistudio) return;
+    fetch(TRACK_ACTIVITY_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Session-Id': getSessionId() },
+        body: JSON.stringify({ event, scenario }),
+        keepalive: true,
+    }).catch(error => console.warn('Could not record activity:', error));
+};
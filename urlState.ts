@@ -0,0 +1,143 @@
+import { AdoptionCurve, BusinessDrivers, EmployeeSegment, MAX_SEGMENT_NAME_LENGTH, MAX_SEGMENTS, MAX_TERM_YEARS, RoiInputs, newSegmentId, summarizeSegments } from './roiEngine';
+import { findLocale, LOCALE_OPTIONS } from './locale';
+import { DEFAULT_PRICING_SCHEDULE } from './pricing';
+
+// --- SHAREABLE URL STATE ---
+// The calculator assumptions are mirrored into the URL fragment so a refresh keeps
+// them and a rep can send a client a link to the exact scenario. Only model inputs
+// are encoded: contact details must never end up in a URL.
+//
+// Format (version 1), query-string style for readability:
+//   #v=1&l=en-GB&e=250&s=45000&th=20&to=15&rc=8000&t=3&dr=8&cd=0&pb=5&tr=20&te=25&mt=10&wh=2080&ad=s12
+// Driver percentages are stored as whole percents; adoption is `s<months>` for an
+// S-curve or `y<p1>.<p2>...` for per-year percentages. Employee segments, when
+// used, are `sg=<name>,<employees>,<salary>,<turnover>,<replaceCost>,<rolloutYear>;...`
+// with the name URI-encoded.
+
+export const URL_STATE_VERSION = 1;
+
+export interface ShareableState {
+    localeId: string;
+    inputs: RoiInputs;
+}
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const encodeAdoption = (curve: AdoptionCurve): string =>
+    curve.kind === 'sCurve' ? `s${curve.monthsToFullAdoption}` : `y${curve.yearlyPercent.join('.')}`;
+
+const decodeAdoption = (value: string | null): AdoptionCurve | undefined => {
+    if (!value) return undefined;
+    if (/^s\d{1,2}$/.test(value)) {
+        const months = Number(value.slice(1));
+        return months > 0 ? { kind: 'sCurve', monthsToFullAdoption: months } : undefined;
+    }
+    if (/^y\d{1,3}(\.\d{1,3})*$/.test(value)) {
+        const yearlyPercent = value.slice(1).split('.').map(Number);
+        return yearlyPercent.every(p => p <= 100) ? { kind: 'yearly', yearlyPercent: yearlyPercent.slice(0, MAX_TERM_YEARS) } : undefined;
+    }
+    return undefined;
+};
+
+const encodeSegments = (segments: EmployeeSegment[]): string =>
+    segments.map(segment => [
+        encodeURIComponent(segment.name), segment.employees, round(segment.salary), round(segment.turnover), round(segment.replaceCost), segment.rolloutYear,
+    ].join(',')).join(';');
+
+const decodeSegments = (value: string | null): EmployeeSegment[] | undefined => {
+    if (!value) return undefined;
+    const segments: EmployeeSegment[] = [];
+    for (const entry of value.split(';').slice(0, MAX_SEGMENTS)) {
+        const fields = entry.split(',');
+        if (fields.length !== 6) return undefined;
+        const [employees, salary, turnover, replaceCost, rolloutYear] = fields.slice(1).map(Number);
+        const inRange = (n: number, min: number, max: number) => Number.isFinite(n) && n >= min && n <= max;
+        if (!inRange(employees, 1, 1000000) || !inRange(salary, 0, 10000000) || !inRange(turnover, 0, 100)
+            || !inRange(replaceCost, 0, 10000000) || !inRange(rolloutYear, 1, MAX_TERM_YEARS)) return undefined;
+        let name: string;
+        try {
+            name = decodeURIComponent(fields[0]).slice(0, MAX_SEGMENT_NAME_LENGTH);
+        } catch {
+            return undefined;
+        }
+        segments.push({ id: newSegmentId(), name, employees: Math.round(employees), salary, turnover, replaceCost, rolloutYear: Math.round(rolloutYear) });
+    }
+    return segments;
+};
+
+export const encodeState = ({ localeId, inputs }: ShareableState): string => {
+    const { drivers } = inputs;
+    const params = new URLSearchParams({
+        v: String(URL_STATE_VERSION),
+        l: localeId,
+        e: String(inputs.employees),
+        s: String(inputs.salary),
+        th: String(inputs.trainingHours),
+        to: String(inputs.turnover),
+        rc: String(inputs.replaceCost),
+        t: String(inputs.term),
+        dr: String(inputs.discountRate),
+        cd: String(inputs.customDiscount),
+        cg: String(inputs.costGrowth),
+        pb: String(round(drivers.productivityBoost * 100)),
+        tr: String(round(drivers.turnoverReduction * 100)),
+        te: String(round(drivers.trainingEfficiency * 100)),
+        mt: String(drivers.maxTrainingHoursSaved),
+        wh: String(drivers.workingHoursPerYear),
+        ad: encodeAdoption(inputs.adoption),
+    });
+    if (inputs.segments.length > 0) params.set('sg', encodeSegments(inputs.segments));
+    return params.toString();
+};
+
+// Reads a number within [min, max]; anything missing or out of range keeps the default.
+const readNumber = (params: URLSearchParams, key: string, fallback: number, min: number, max: number): number => {
+    const raw = params.get(key);
+    if (raw === null || raw.trim() === '') return fallback;
+    const value = Number(raw);
+    return Number.isFinite(value) && value >= min && value <= max ? value : fallback;
+};
+
+// Returns null when the fragment holds no calculator state or an unknown version,
+// so stale or hand-edited links fall back to the defaults instead of failing.
+export const decodeState = (fragment: string, defaults: ShareableState): ShareableState | null => {
+    const params = new URLSearchParams(fragment.replace(/^#/, ''));
+    if (params.get('v') !== String(URL_STATE_VERSION)) return null;
+
+    const localeId = LOCALE_OPTIONS.some(option => option.id === params.get('l')) ? params.get('l')! : defaults.localeId;
+    const base = defaults.inputs;
+    const baseDrivers = base.drivers;
+
+    const drivers: BusinessDrivers = {
+        productivityBoost: readNumber(params, 'pb', baseDrivers.productivityBoost * 100, 0, 100) / 100,
+        turnoverReduction: readNumber(params, 'tr', baseDrivers.turnoverReduction * 100, 0, 100) / 100,
+        trainingEfficiency: readNumber(params, 'te', baseDrivers.trainingEfficiency * 100, 0, 100) / 100,
+        maxTrainingHoursSaved: readNumber(params, 'mt', baseDrivers.maxTrainingHoursSaved, 0, 1000),
+        workingHoursPerYear: readNumber(params, 'wh', baseDrivers.workingHoursPerYear, 1, 8760),
+    };
+
+    const segments = decodeSegments(params.get('sg')) ?? [];
+
+    return {
+        localeId,
+        inputs: {
+            currency: findLocale(localeId).currency,
+            employees: Math.round(readNumber(params, 'e', base.employees, 1, 1000000)),
+            salary: readNumber(params, 's', base.salary, 0, 10000000),
+            trainingHours: readNumber(params, 'th', base.trainingHours, 0, 2000),
+            turnover: readNumber(params, 'to', base.turnover, 0, 100),
+            replaceCost: readNumber(params, 'rc', base.replaceCost, 0, 10000000),
+            term: Math.round(readNumber(params, 't', base.term, 1, MAX_TERM_YEARS)),
+            discountRate: readNumber(params, 'dr', base.discountRate, 0, 100),
+            customDiscount: readNumber(params, 'cd', base.customDiscount, 0, DEFAULT_PRICING_SCHEDULE.maxCustomDiscountPercent),
+            costGrowth: readNumber(params, 'cg', base.costGrowth, 0, 100),
+            drivers,
+            adoption: decodeAdoption(params.get('ad')) ?? base.adoption,
+            segments,
+            ...(segments.length > 0 ? summarizeSegments(segments) : {}),
+        },
+    };
+};
+
+export const buildShareUrl = (state: ShareableState): string =>
+    `${window.location.origin}${window.location.pathname}#${encodeState(state)}`;
@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LEAD_GATE': JSON.stringify(env.LEAD_GATE || ''),
+        'process.env.EMBED_ALLOWED_ORIGINS': JSON.stringify(env.EMBED_ALLOWED_ORIGINS || '')
       },
       resolve: {
         alias: {
@@ -0,0 +1,307 @@
+// --- MINIMAL XLSX WRITER ---
+// Just enough SpreadsheetML to produce a workbook with values, formulas, number
+// formats, defined names and column widths. Strings are written inline and the
+// package is stored uncompressed, so no zip or spreadsheet library is needed.
+// Formula cells carry no cached values; `fullCalcOnLoad` makes the spreadsheet
+// application compute them when the file is opened.
+
+export interface XlsxStyle {
+    numFmt?: string; // Excel number format code, e.g. '0.0%'
+    bold?: boolean;
+    italic?: boolean;
+    fontSize?: number;
+    color?: string; // Font color, RRGGBB
+    fill?: string; // Background color, RRGGBB
+}
+
+export interface XlsxCell {
+    value?: number | string | boolean;
+    formula?: string; // Without the leading '='
+    style?: XlsxStyle;
+}
+
+export interface XlsxSheet {
+    name: string;
+    rows: (XlsxCell | null)[][]; // rows[0] is row 1; null leaves a cell empty
+    columnWidths?: number[]; // In characters, from column A
+}
+
+export interface XlsxDefinedName {
+    name: string;
+    ref: string; // e.g. "Inputs!$B$6" or "'Cash Flow'!$D$22:$D$27"
+}
+
+export interface XlsxWorkbook {
+    sheets: XlsxSheet[];
+    definedNames?: XlsxDefinedName[];
+    title?: string;
+    creator?: string;
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// 0 -> A, 25 -> Z, 26 -> AA
+export const columnName = (index: number): string => {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+};
+
+export const cellRef = (column: number, row: number): string => `${columnName(column)}${row}`;
+
+// A sheet name quoted for use in references when it contains spaces or punctuation.
+export const sheetRef = (name: string): string => (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `'${name.replace(/'/g, "''")}'`);
+
+const escapeXml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// --- STYLES ---
+// Each distinct XlsxStyle becomes one cellXfs entry; index 0 is the default.
+
+const styleKey = (style: XlsxStyle): string =>
+    JSON.stringify([style.numFmt ?? '', style.bold ?? false, style.italic ?? false, style.fontSize ?? 0, style.color ?? '', style.fill ?? '']);
+
+const createStyleTable = () => {
+    const styles: XlsxStyle[] = [{}];
+    const indexByKey = new Map<string, number>([[styleKey({}), 0]]);
+
+    const indexOf = (style: XlsxStyle | undefined): number => {
+        if (!style) return 0;
+        const key = styleKey(style);
+        let index = indexByKey.get(key);
+        if (index === undefined) {
+            index = styles.length;
+            styles.push(style);
+            indexByKey.set(key, index);
+        }
+        return index;
+    };
+
+    const toXml = (): string => {
+        const numFmts: string[] = [];
+        const numFmtIds = new Map<string, number>();
+        const fonts: string[] = [];
+        const fills = ['<fill><patternFill patternType="none"/></fill>', '<fill><patternFill patternType="gray125"/></fill>'];
+        const xfs = styles.map(style => {
+            let numFmtId = 0;
+            if (style.numFmt) {
+                numFmtId = numFmtIds.get(style.numFmt) ?? 164 + numFmtIds.size; // 164+ are custom formats
+                if (!numFmtIds.has(style.numFmt)) {
+                    numFmtIds.set(style.numFmt, numFmtId);
+                    numFmts.push(`<numFmt numFmtId="${numFmtId}" formatCode="${escapeXml(style.numFmt)}"/>`);
+                }
+            }
+            const fontId = fonts.length;
+            fonts.push(
+                `<font>${style.bold ? '<b/>' : ''}${style.italic ? '<i/>' : ''}<sz val="${style.fontSize ?? 11}"/>`
+                + `${style.color ? `<color rgb="FF${style.color}"/>` : ''}<name val="Calibri"/><family val="2"/></font>`
+            );
+            let fillId = 0;
+            if (style.fill) {
+                fillId = fills.length;
+                fills.push(`<fill><patternFill patternType="solid"><fgColor rgb="FF${style.fill}"/><bgColor indexed="64"/></patternFill></fill>`);
+            }
+            return `<xf numFmtId="${numFmtId}" fontId="${fontId}" fillId="${fillId}" borderId="0" xfId="0"`
+                + `${numFmtId ? ' applyNumberFormat="1"' : ''} applyFont="1"${fillId ? ' applyFill="1"' : ''}/>`;
+        });
+
+        return XML_HEADER
+            + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+            + (numFmts.length ? `<numFmts count="${numFmts.length}">${numFmts.join('')}</numFmts>` : '')
+            + `<fonts count="${fonts.length}">${fonts.join('')}</fonts>`
+            + `<fills count="${fills.length}">${fills.join('')}</fills>`
+            + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+            + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+            + `<cellXfs count="${xfs.length}">${xfs.join('')}</cellXfs>`
+            + '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>'
+            + '</styleSheet>';
+    };
+
+    return { indexOf, toXml };
+};
+
+// --- PARTS ---
+
+const cellXml = (cell: XlsxCell, ref: string, styleIndex: number): string => {
+    const s = styleIndex ? ` s="${styleIndex}"` : '';
+    if (cell.formula !== undefined) {
+        return `<c r="${ref}"${s}><f>${escapeXml(cell.formula)}</f></c>`;
+    }
+    if (typeof cell.value === 'number') {
+        return Number.isFinite(cell.value) ? `<c r="${ref}"${s}><v>${cell.value}</v></c>` : `<c r="${ref}"${s}/>`;
+    }
+    if (typeof cell.value === 'boolean') {
+        return `<c r="${ref}"${s} t="b"><v>${cell.value ? 1 : 0}</v></c>`;
+    }
+    if (typeof cell.value === 'string') {
+        return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell.value)}</t></is></c>`;
+    }
+    return `<c r="${ref}"${s}/>`;
+};
+
+const sheetXml = (sheet: XlsxSheet, styles: ReturnType<typeof createStyleTable>): string => {
+    const cols = sheet.columnWidths?.length
+        ? `<cols>${sheet.columnWidths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+        : '';
+    const rows = sheet.rows.map((row, r) => {
+        const cells = row
+            .map((cell, c) => (cell ? cellXml(cell, cellRef(c, r + 1), styles.indexOf(cell.style)) : ''))
+            .join('');
+        return cells ? `<row r="${r + 1}">${cells}</row>` : '';
+    }).join('');
+    return XML_HEADER
+        + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + `${cols}<sheetData>${rows}</sheetData></worksheet>`;
+};
+
+const workbookXml = (workbook: XlsxWorkbook): string => {
+    const sheets = workbook.sheets
+        .map((sheet, i) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+        .join('');
+    const names = workbook.definedNames?.length
+        ? `<definedNames>${workbook.definedNames.map(({ name, ref }) => `<definedName name="${escapeXml(name)}">${escapeXml(ref)}</definedName>`).join('')}</definedNames>`
+        : '';
+    return XML_HEADER
+        + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + `<sheets>${sheets}</sheets>${names}<calcPr calcId="191029" fullCalcOnLoad="1"/></workbook>`;
+};
+
+const workbookRelsXml = (sheetCount: number): string => {
+    const rels = Array.from({ length: sheetCount }, (_, i) =>
+        `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+    ).join('');
+    return XML_HEADER
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + `${rels}<Relationship Id="rId${sheetCount + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+        + '</Relationships>';
+};
+
+const contentTypesXml = (sheetCount: number): string => XML_HEADER
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + Array.from({ length: sheetCount }, (_, i) =>
+        `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ).join('')
+    + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+    + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+    + '</Types>';
+
+const ROOT_RELS_XML = XML_HEADER
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+    + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>'
+    + '</Relationships>';
+
+const corePropertiesXml = (workbook: XlsxWorkbook, created: Date): string => XML_HEADER
+    + '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">'
+    + (workbook.title ? `<dc:title>${escapeXml(workbook.title)}</dc:title>` : '')
+    + (workbook.creator ? `<dc:creator>${escapeXml(workbook.creator)}</dc:creator>` : '')
+    + `<dcterms:created xsi:type="dcterms:W3CDTF">${created.toISOString().replace(/\.\d{3}Z$/, 'Z')}</dcterms:created>`
+    + '</cp:coreProperties>';
+
+// --- ZIP (STORED) ---
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+const zipStored = (files: { path: string; data: Uint8Array }[], date: Date): Uint8Array => {
+    const encoder = new TextEncoder();
+    const dosTime = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+    const dosDate = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+
+    const chunks: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    files.forEach(({ path, data }) => {
+        const name = encoder.encode(path);
+        const crc = crc32(data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034B50, true);
+        local.setUint16(4, 20, true); // Version needed
+        local.setUint16(6, 0x0800, true); // UTF-8 names
+        local.setUint16(8, 0, true); // Stored
+        local.setUint16(10, dosTime, true);
+        local.setUint16(12, dosDate, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, data.length, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+
+        const entry = new DataView(new ArrayBuffer(46));
+        entry.setUint32(0, 0x02014B50, true);
+        entry.setUint16(4, 20, true); // Version made by
+        entry.setUint16(6, 20, true);
+        entry.setUint16(8, 0x0800, true);
+        entry.setUint16(10, 0, true);
+        entry.setUint16(12, dosTime, true);
+        entry.setUint16(14, dosDate, true);
+        entry.setUint32(16, crc, true);
+        entry.setUint32(20, data.length, true);
+        entry.setUint32(24, data.length, true);
+        entry.setUint16(28, name.length, true);
+        entry.setUint32(42, offset, true);
+
+        chunks.push(new Uint8Array(local.buffer), name, data);
+        central.push(new Uint8Array(entry.buffer), name);
+        offset += 30 + name.length + data.length;
+    });
+
+    const centralSize = central.reduce((total, chunk) => total + chunk.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054B50, true);
+    end.setUint16(8, files.length, true);
+    end.setUint16(10, files.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+    const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let position = 0;
+    parts.forEach(part => {
+        out.set(part, position);
+        position += part.length;
+    });
+    return out;
+};
+
+export const writeXlsx = (workbook: XlsxWorkbook, created: Date = new Date()): Uint8Array => {
+    const encoder = new TextEncoder();
+    const styles = createStyleTable();
+    // Sheets first: they register the styles that styles.xml then lists.
+    const sheetParts = workbook.sheets.map((sheet, i) => ({
+        path: `xl/worksheets/sheet${i + 1}.xml`,
+        data: encoder.encode(sheetXml(sheet, styles)),
+    }));
+    const count = workbook.sheets.length;
+    return zipStored([
+        { path: '[Content_Types].xml', data: encoder.encode(contentTypesXml(count)) },
+        { path: '_rels/.rels', data: encoder.encode(ROOT_RELS_XML) },
+        { path: 'docProps/core.xml', data: encoder.encode(corePropertiesXml(workbook, created)) },
+        { path: 'xl/workbook.xml', data: encoder.encode(workbookXml(workbook)) },
+        { path: 'xl/_rels/workbook.xml.rels', data: encoder.encode(workbookRelsXml(count)) },
+        { path: 'xl/styles.xml', data: encoder.encode(styles.toXml()) },
+        ...sheetParts,
+    ], created);
+};